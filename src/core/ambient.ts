@@ -0,0 +1,72 @@
+/**
+ * Ambient Context (Opt-in)
+ * 
+ * Makes the per-request CanonContext reachable without threading `req`
+ * through every function. Enabled per adapter with `ambientContext: true`.
+ * 
+ * Backed by AsyncLocalStorage: the context follows the async call chain
+ * started by the request, and is absent everywhere else.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { CanonConfig, CanonContext, CanonSchema, InternalCanonContext, WideEvent } from '../types.js';
+
+const storage = new AsyncLocalStorage<CanonContext>();
+
+/**
+ * Context returned by useCanon() outside of a request, and attached by
+ * adapters to requests on ignored paths
+ * Every method is a no-op so callers never need to guard
+ */
+export const NOOP_CONTEXT: CanonContext = {
+  enrich(): void {},
+  set(): void {},
+  get(): Readonly<Partial<WideEvent>> {
+    return {};
+  },
+  markError(): void {},
+};
+
+/**
+ * Run a function with a Canon context as the ambient context
+ * 
+ * @param context - Context to expose via getCanon()/useCanon()
+ * @param fn - Function to run; async work it starts inherits the context
+ * @returns Return value of fn
+ */
+export function runWithCanon<T>(context: CanonContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run a function in the context's scope
+ * Used by adapters: activates the request's OTel span (if one was started)
+ * and, when the config opts in, the ambient Canon context
+ */
+export function runInCanonScope<T>(
+  config: CanonConfig,
+  context: InternalCanonContext,
+  fn: () => T
+): T {
+  const runInSpan = context.runInSpan;
+  const scoped = runInSpan ? () => runInSpan(fn) : fn;
+  return config.ambientContext ? storage.run(context, scoped) : scoped();
+}
+
+/**
+ * Get the ambient Canon context for the current request
+ * Pass the schema type (getCanon<typeof schema>()) for typed set()
+ * 
+ * @returns The context, or undefined outside of a request
+ */
+export function getCanon<S extends CanonSchema<any> = CanonSchema>(): CanonContext<S> | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Get the ambient Canon context, or a no-op context outside of a request
+ * Safe to call from any layer (repositories, services, jobs)
+ */
+export function useCanon<S extends CanonSchema<any> = CanonSchema>(): CanonContext<S> {
+  return storage.getStore() ?? NOOP_CONTEXT;
+}
@@ -2,39 +2,83 @@
  * Canon Context Manager
  * 
  * The central coordinator that manages the event lifecycle:
- * finalize -> snapshot -> redact(copy) -> validate(redacted) -> sample -> emit
+ * finalize -> snapshot -> redact(copy) -> metrics -> validate(redacted) -> sample -> emit
  * 
- * Guarantees exactly ONE event emission per request.
+ * With config.sinks, the last steps run once per sink:
+ * redact(sink) -> filter -> sample -> emit
+ * 
+ * Guarantees exactly ONE event emission per request. Emitter failures are
+ * contained by the emit guard (retry, fallbackEmit, circuit breaker). Each
+ * outcome is counted (see getCanonStats()) and reported to config.onInternalEvent.
  */
 
 import type {
   CanonConfig,
+  CanonSink,
   EmitFunction,
   InternalCanonContext,
+  InternalEvent,
   RequestOutcome,
+  Sampler,
   SamplingConfig,
+  SamplingDecision,
   WideEvent,
 } from '../types.js';
 import { DEFAULTS } from '../types.js';
 import { createEventBuilder } from './event.js';
 import { applyRedaction } from './redact.js';
-import { shouldSample } from './sampling.js';
+import { shouldSample, validateAdaptiveSampling } from './sampling.js';
+import { validateSamplingRules } from './sampling-rules.js';
+import { applySlo, validateSlo } from './slo.js';
+import { resolveMetrics } from './metrics.js';
+import { reportInternalEvent } from './stats.js';
+import { emitGuarded, validateEmitGuard } from './emit-guard.js';
 import {
+  applyMaxItems,
   logValidationErrors,
   logValidationWarnings,
   validateSchema,
 } from './schema.js';
-import { createSpanAttributeSetter } from './otel.js';
-import { resolveRequestId, resolveTraceId } from '../utils/ids.js';
+import { createSpanAttributeSetter, startRequestSpan } from './otel.js';
+import { writeStdout } from '../utils/emit.js';
+import { snapshot as copyEvent } from '../utils/merge.js';
+import { validateRouteThresholds } from '../utils/route-match.js';
+import {
+  generateSpanId,
+  generateTraceId,
+  generateW3CTraceId,
+  isW3CTraceId,
+  resolveRequestId,
+} from '../utils/ids.js';
+import {
+  DEFAULT_TRACE_FLAGS,
+  formatTraceparent,
+  parseTraceparent,
+} from '../utils/traceparent.js';
+import type { W3CTraceContext } from '../utils/traceparent.js';
 import { isoTimestamp, startTimer } from '../utils/time.js';
 
 /**
  * Default emit function - writes JSON to stdout
  */
 const defaultEmit: EmitFunction = (event) => {
-  process.stdout.write(JSON.stringify(event) + '\n');
+  writeStdout(JSON.stringify(event) + '\n');
 };
 
+/**
+ * Request and trace IDs resolved for an incoming request
+ */
+export interface ExtractedIds {
+  requestId: string;
+  traceId: string;
+  w3c?: W3CTraceContext;
+}
+
+/**
+ * Decision used when debug mode bypasses sampling
+ */
+const DEBUG_SAMPLING_DECISION: SamplingDecision = { sampled: true, rate: 1, reason: 'debug' };
+
 /**
  * Create a Canon context for a request
  * 
@@ -43,21 +87,31 @@ const defaultEmit: EmitFunction = (event) => {
  * @param traceId - Trace ID (from header or generated)
  * @param initialData - Initial event data (method, path, etc.)
  * @param debug - Debug mode flag (bypasses sampling when true)
- * @returns Canon context with emission callback
+ * @param w3c - W3C trace context; when present the event gets span_id/parent_span_id
+ * @returns Canon context, emission callback and headers to propagate on the response
  */
 export function createCanonContext(
   config: CanonConfig,
   requestId: string,
   traceId: string | undefined,
   initialData: Partial<WideEvent>,
-  debug: boolean = false
-): { context: InternalCanonContext; emit: (outcome: RequestOutcome, statusCode: number) => void } {
+  debug: boolean = false,
+  w3c?: W3CTraceContext
+): {
+  context: InternalCanonContext;
+  emit: (outcome: RequestOutcome, statusCode?: number) => void;
+  responseHeaders: Record<string, string>;
+} {
   const startTime = startTimer();
   
+  const requestSpan = w3c && traceId && config.otelSpans
+    ? startRequestSpan(initialData, traceId, w3c)
+    : undefined;
+  
   const baseEvent: Partial<WideEvent> = {
     timestamp: isoTimestamp(),
     request_id: requestId,
-    trace_id: traceId,
+    trace_id: requestSpan?.traceId ?? traceId,
     service: config.service,
     version: config.version,
     deployment_id: config.deployment_id,
@@ -65,9 +119,31 @@ export function createCanonContext(
     ...initialData,
   };
   
-  const builder = createEventBuilder(baseEvent, startTime);
+  if (w3c) {
+    baseEvent.span_id = requestSpan?.spanId ?? generateSpanId();
+    if (w3c.parentSpanId) baseEvent.parent_span_id = w3c.parentSpanId;
+  }
   
-  const spanAttributeSetter = createSpanAttributeSetter();
+  const report = (event: Omit<InternalEvent, 'service' | 'requestId'>): void => {
+    reportInternalEvent(config, { ...event, service: config.service, requestId });
+  };
+  
+  const builder = createEventBuilder(baseEvent, startTime, (method) => {
+    report({ type: 'late_mutation', method });
+  });
+  
+  const metrics = resolveMetrics(config.metrics);
+  
+  const spanAttributeSetter = requestSpan
+    ? requestSpan.setAttributes
+    : createSpanAttributeSetter();
+  
+  const responseHeaders = createResponseHeaders(
+    config,
+    baseEvent,
+    requestSpan?.traceFlags ?? w3c?.traceFlags,
+    w3c?.traceState
+  );
   
   let emitted = false;
   
@@ -86,28 +162,51 @@ export function createCanonContext(
     
     markError(err: unknown): void {
       builder.markError(err);
+      if (config.errorStack && err instanceof Error && err.stack && !builder.isFinalized()) {
+        builder.set('error.stack', err.stack);
+      }
     },
     
     isFinalized(): boolean {
       return builder.isFinalized();
     },
     
-    finalize(outcome: RequestOutcome, statusCode: number): void {
+    finalize(outcome: RequestOutcome, statusCode?: number): void {
       emitEvent(outcome, statusCode);
     },
     
     addSpanAttributes: spanAttributeSetter,
   };
   
-  const emitEvent = (outcome: RequestOutcome, statusCode: number): void => {
+  if (requestSpan) {
+    context.runInSpan = requestSpan.run;
+  }
+  
+  const emitEvent = (outcome: RequestOutcome, statusCode?: number): void => {
     if (emitted) {
       return;
     }
     emitted = true;
     
     const snapshot = builder.finalize(outcome, statusCode);
+    applySlo(snapshot, config.slo);
+    
+    const truncatedFields = applyMaxItems(snapshot, config.schema);
+    if (truncatedFields.length > 0) {
+      report({ type: 'array_truncated', fields: truncatedFields });
+    }
+    
+    const redactedFields: string[] = [];
+    const redacted = applyRedaction(snapshot, config.redact, config.schema, (path) => {
+      redactedFields.push(path);
+    });
+    if (redactedFields.length > 0) {
+      report({ type: 'redaction_applied', fields: redactedFields });
+    }
+    
+    requestSpan?.end(redacted);
     
-    const redacted = applyRedaction(snapshot, config.redact, config.schema);
+    metrics?.observe(redacted, config.schema);
     
     const validation = validateSchema(
       redacted,
@@ -121,26 +220,114 @@ export function createCanonContext(
     
     if (!validation.valid) {
       logValidationErrors(validation.errors, requestId);
+      metrics?.recordValidationErrors?.(redacted, validation.errors.length);
       
       if (config.strict) {
+        report({ type: 'validation_dropped', errors: validation.errors });
         return;
       }
     }
     
-    if (!debug) {
-      const samplingConfig = normalizeSamplingConfig(config.sample);
-      if (!shouldSample(redacted, samplingConfig)) {
-        return;
+    let sharedDecision: SamplingDecision | undefined;
+    const sampleShared = (): SamplingDecision => {
+      sharedDecision ??= shouldSample(redacted, normalizeSamplingConfig(config.sample));
+      return sharedDecision;
+    };
+    
+    if (config.sinks) {
+      config.sinks.forEach((sink, index) => {
+        emitToSink(snapshot, redacted, sampleShared, sink, sink.name ?? `#${index + 1}`);
+      });
+    } else {
+      emitToSink(snapshot, redacted, sampleShared, { emit: config.emit ?? defaultEmit });
+    }
+    
+    builder.markEmitted();
+  };
+  
+  const emitToSink = (
+    snapshot: Partial<WideEvent>,
+    redacted: Partial<WideEvent>,
+    sampleShared: () => SamplingDecision,
+    sink: CanonSink,
+    sinkName?: string
+  ): void => {
+    const sinkReport = (event: Omit<InternalEvent, 'service' | 'requestId' | 'sink'>): void => {
+      report(sinkName ? { ...event, sink: sinkName } : event);
+    };
+    
+    let event: Partial<WideEvent>;
+    if (sink.redact && sink.redact !== config.redact) {
+      const redactedFields: string[] = [];
+      event = applyRedaction(snapshot, sink.redact, config.schema, (path) => {
+        redactedFields.push(path);
+      });
+      if (redactedFields.length > 0) {
+        sinkReport({ type: 'redaction_applied', fields: redactedFields });
       }
+    } else {
+      event = sinkName ? copyEvent(redacted) : redacted;
+    }
+    
+    if (sink.filter && !sink.filter(event as WideEvent)) {
+      return;
     }
     
-    const emit = config.emit ?? defaultEmit;
-    emit(redacted as WideEvent);
+    const decision = debug
+      ? DEBUG_SAMPLING_DECISION
+      : sink.sample
+        ? shouldSample(event, normalizeSamplingConfig(sink.sample))
+        : sampleShared();
     
-    builder.markEmitted();
+    if (!decision.sampled) {
+      metrics?.recordSampledOut?.(event);
+      sinkReport({ type: 'sampled_out' });
+      return;
+    }
+    
+    event.sample_rate = decision.rate;
+    event.sample_reason = decision.reason;
+    if (decision.rule) event.sample_rule = decision.rule;
+    
+    emitGuarded(sink.emit, event as WideEvent, config, {
+      onEmitted: () => {
+        metrics?.recordEmitted?.(event);
+        sinkReport({ type: 'emitted' });
+      },
+      onFailed: (err) => sinkReport({ type: 'emitter_threw', error: err }),
+      onCircuitOpen: () => sinkReport({ type: 'circuit_open' }),
+    });
   };
   
-  return { context, emit: emitEvent };
+  return { context, emit: emitEvent, responseHeaders };
+}
+
+/**
+ * Build the ID headers set on the response
+ * traceparent/tracestate are added when the request carries W3C context
+ */
+function createResponseHeaders(
+  config: CanonConfig,
+  event: Partial<WideEvent>,
+  traceFlags: string | undefined,
+  traceState: string | undefined
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  
+  if (event.request_id) {
+    headers[config.requestIdHeader ?? DEFAULTS.requestIdHeader] = event.request_id;
+  }
+  
+  if (event.trace_id) {
+    headers[config.traceIdHeader ?? DEFAULTS.traceIdHeader] = event.trace_id;
+  }
+  
+  if (event.trace_id && event.span_id) {
+    headers.traceparent = formatTraceparent(event.trace_id, event.span_id, traceFlags);
+    if (traceState) headers.tracestate = traceState;
+  }
+  
+  return headers;
 }
 
 /**
@@ -148,7 +335,7 @@ export function createCanonContext(
  */
 function normalizeSamplingConfig(
   config: CanonConfig['sample']
-): SamplingConfig | ((event: WideEvent) => boolean) | undefined {
+): SamplingConfig | Sampler | undefined {
   if (!config) {
     return undefined;
   }
@@ -160,23 +347,135 @@ function normalizeSamplingConfig(
   return config;
 }
 
+/**
+ * Validate configuration that can only be checked at runtime (e.g. loaded from JSON)
+ * Called by adapters at construction so mistakes fail fast
+ * 
+ * @throws Error describing the first problem found
+ */
+export function validateCanonConfig(config: CanonConfig): void {
+  validateSampleConfig(config.sample);
+  validateSlo(config.slo);
+  validateEmitGuard(config.emitGuard);
+  validateSinks(config);
+}
+
+/**
+ * Validate declarative sampling options (rules, adaptive, route thresholds)
+ */
+function validateSampleConfig(sample: CanonConfig['sample']): void {
+  if (sample && typeof sample === 'object') {
+    validateSamplingRules(sample.rules);
+    validateAdaptiveSampling(sample.adaptive);
+    validateRouteThresholds(sample.routeSlowThresholds, 'sample.routeSlowThresholds');
+  }
+}
+
+/**
+ * Validate the sinks list
+ * emit and sinks are mutually exclusive so no sink is silently skipped
+ */
+function validateSinks(config: CanonConfig): void {
+  if (config.sinks === undefined) return;
+  
+  if (!Array.isArray(config.sinks)) {
+    throw new Error('[canon] sinks must be an array');
+  }
+  if (config.emit) {
+    throw new Error('[canon] emit and sinks cannot be combined; add the emit function as a sink');
+  }
+  
+  config.sinks.forEach((sink: unknown, index) => {
+    const label = `#${index + 1}`;
+    if (sink === null || typeof sink !== 'object') {
+      throw new Error(`[canon] Invalid sink ${label}: must be an object`);
+    }
+    
+    const { name, emit, filter, sample } = sink as Record<string, unknown>;
+    const described = typeof name === 'string' ? `${label} (${name})` : label;
+    
+    if (typeof emit !== 'function') {
+      throw new Error(`[canon] Invalid sink ${described}: emit must be a function`);
+    }
+    if (filter !== undefined && typeof filter !== 'function') {
+      throw new Error(`[canon] Invalid sink ${described}: filter must be a function`);
+    }
+    validateSampleConfig(sample as CanonConfig['sample']);
+  });
+}
+
+/**
+ * Resolve the debug flag for an adapter
+ * Defaults to true outside production so every event is visible locally
+ */
+export function resolveDebug(config: CanonConfig): boolean {
+  const nodeEnv = typeof process !== 'undefined' ? process.env?.NODE_ENV : undefined;
+  return config.debug ?? (nodeEnv !== 'production');
+}
+
 /**
  * Extract request and trace IDs from headers
+ * A valid traceparent header takes precedence over the trace ID header
  */
 export function extractIds(
   headers: Record<string, string | string[] | undefined>,
   config: CanonConfig
-): { requestId: string; traceId: string } {
+): ExtractedIds {
   const requestIdHeader = config.requestIdHeader ?? DEFAULTS.requestIdHeader;
   const traceIdHeader = config.traceIdHeader ?? DEFAULTS.traceIdHeader;
   const trustIncoming = config.trustIncomingIds ?? DEFAULTS.trustIncomingIds;
   
   const rawRequestId = getHeaderValue(headers, requestIdHeader);
-  const rawTraceId = getHeaderValue(headers, traceIdHeader);
+  
+  const incoming = trustIncoming
+    ? {
+        traceparent: getHeaderValue(headers, 'traceparent'),
+        tracestate: getHeaderValue(headers, 'tracestate'),
+        traceId: getHeaderValue(headers, traceIdHeader),
+      }
+    : {};
   
   return {
     requestId: resolveRequestId(rawRequestId, trustIncoming),
-    traceId: resolveTraceId(rawTraceId, trustIncoming),
+    ...resolveTraceContext(config, incoming),
+  };
+}
+
+/**
+ * Resolve the trace ID and W3C context from incoming values
+ * 
+ * - Valid traceparent: continue the caller's trace (W3C context with parent span)
+ * - 'canon' mode: incoming trace ID or a new trace_ ID, no W3C context
+ * - 'w3c' mode (or otelSpans): incoming 32-hex trace ID or a new one, new W3C context
+ * 
+ * @param config - Canon configuration
+ * @param incoming - Raw traceparent/tracestate and legacy trace ID, all optional
+ */
+export function resolveTraceContext(
+  config: CanonConfig,
+  incoming: { traceparent?: string; tracestate?: string; traceId?: string }
+): { traceId: string; w3c?: W3CTraceContext } {
+  const parent = parseTraceparent(incoming.traceparent);
+  if (parent) {
+    return {
+      traceId: parent.traceId,
+      w3c: {
+        parentSpanId: parent.spanId,
+        traceFlags: parent.traceFlags,
+        traceState: incoming.tracestate?.trim() || undefined,
+      },
+    };
+  }
+  
+  const mode = config.otelSpans ? 'w3c' : config.traceContext ?? DEFAULTS.traceContext;
+  
+  if (mode === 'canon') {
+    return { traceId: incoming.traceId || generateTraceId() };
+  }
+  
+  return {
+    traceId: incoming.traceId && isW3CTraceId(incoming.traceId) ? incoming.traceId : generateW3CTraceId(),
+    w3c: { traceFlags: DEFAULT_TRACE_FLAGS },
   };
 }
 
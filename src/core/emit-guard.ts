@@ -0,0 +1,206 @@
+/**
+ * Emit Guard
+ * 
+ * Isolates requests from the emit function:
+ * - Sync throws and async rejections are caught, never reaching the adapter
+ * - Failed emits are retried (emitGuard.retries) with exponential backoff
+ *   (emitGuard.retryBaseMs), then sent to fallbackEmit
+ * - A circuit breaker per emit function stops calling a sink after
+ *   emitGuard.failureThreshold consecutive failures, for emitGuard.cooldownMs
+ * 
+ * After the cooldown a single event probes the sink (half-open) while the
+ * others keep going to the fallback: success closes the circuit, failure
+ * reopens it for another cooldown.
+ */
+
+import type { CanonConfig, EmitFunction, WideEvent } from '../types.js';
+import { DEFAULTS } from '../types.js';
+import { writeStderr } from '../utils/emit.js';
+
+/**
+ * Callbacks for the outcome of a guarded emit
+ */
+export interface EmitGuardHooks {
+  onEmitted(): void;
+  onFailed(err: unknown): void;
+  onCircuitOpen(): void;
+}
+
+/**
+ * Circuit breaker state for one emit function
+ */
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+  probing: boolean;
+}
+
+/**
+ * Circuit state per emit function, shared by every request using it
+ */
+const circuits = new WeakMap<EmitFunction, CircuitState>();
+
+/**
+ * Default fallback - writes JSON to stderr
+ */
+const defaultFallbackEmit: EmitFunction = (event) => {
+  writeStderr(JSON.stringify(event) + '\n');
+};
+
+/**
+ * Emit an event without letting emitter failures escape
+ * 
+ * @param emit - Primary emit function
+ * @param event - Event to emit
+ * @param config - Canon configuration (emitGuard, fallbackEmit)
+ * @param hooks - Outcome callbacks; onEmitted may run asynchronously
+ */
+export function emitGuarded(
+  emit: EmitFunction,
+  event: WideEvent,
+  config: CanonConfig,
+  hooks: EmitGuardHooks
+): void {
+  const retries = config.emitGuard?.retries ?? DEFAULTS.emitRetries;
+  const retryBaseMs = config.emitGuard?.retryBaseMs ?? DEFAULTS.emitRetryBaseMs;
+  const failureThreshold = config.emitGuard?.failureThreshold ?? DEFAULTS.emitFailureThreshold;
+  const cooldownMs = config.emitGuard?.cooldownMs ?? DEFAULTS.emitCooldownMs;
+  const fallback = config.fallbackEmit ?? defaultFallbackEmit;
+  const circuit = getCircuit(emit);
+  
+  const open = circuit.failures >= failureThreshold;
+  if (open && (circuit.probing || Date.now() < circuit.openUntil)) {
+    hooks.onCircuitOpen();
+    emitFallback(fallback, event);
+    return;
+  }
+  
+  const probe = open;
+  if (probe) {
+    circuit.probing = true;
+  }
+  
+  const succeed = (): void => {
+    circuit.failures = 0;
+    if (probe) circuit.probing = false;
+    hooks.onEmitted();
+  };
+  
+  const fail = (err: unknown): void => {
+    circuit.failures++;
+    if (probe) circuit.probing = false;
+    writeStderr(`[canon] emit failed for request ${event.request_id}: ${describeError(err)}\n`);
+    
+    if (circuit.failures >= failureThreshold) {
+      circuit.openUntil = Date.now() + cooldownMs;
+      writeStderr(
+        `[canon] emit failed ${circuit.failures} times in a row, using fallbackEmit for ${cooldownMs}ms\n`
+      );
+    }
+    
+    hooks.onFailed(err);
+    emitFallback(fallback, event);
+  };
+  
+  const attempt = (remaining: number): void => {
+    const retryOrFail = (err: unknown): void => {
+      if (remaining > 0) {
+        const delayMs = retryBaseMs * 2 ** (retries - remaining);
+        setTimeout(() => attempt(remaining - 1), delayMs);
+      } else {
+        fail(err);
+      }
+    };
+    
+    let result: unknown;
+    try {
+      result = emit(event);
+    } catch (err) {
+      retryOrFail(err);
+      return;
+    }
+    
+    if (isPromiseLike(result)) {
+      result.then(succeed, retryOrFail);
+    } else {
+      succeed();
+    }
+  };
+  
+  attempt(retries);
+}
+
+/**
+ * Validate emitGuard at adapter construction
+ * 
+ * @param guard - Value of CanonConfig.emitGuard
+ * @throws Error describing the first invalid option
+ */
+export function validateEmitGuard(guard: unknown): void {
+  if (guard === undefined) return;
+  
+  if (guard === null || typeof guard !== 'object') {
+    throw new Error('[canon] emitGuard must be an object');
+  }
+  
+  const { retries, retryBaseMs, failureThreshold, cooldownMs } = guard as Record<string, unknown>;
+  
+  if (retries !== undefined && (!Number.isInteger(retries) || (retries as number) < 0)) {
+    throw new Error('[canon] emitGuard.retries must be a non-negative integer');
+  }
+  if (retryBaseMs !== undefined && (typeof retryBaseMs !== 'number' || !(retryBaseMs >= 0))) {
+    throw new Error('[canon] emitGuard.retryBaseMs must be a non-negative number');
+  }
+  if (failureThreshold !== undefined && (!Number.isInteger(failureThreshold) || (failureThreshold as number) < 1)) {
+    throw new Error('[canon] emitGuard.failureThreshold must be a positive integer');
+  }
+  if (cooldownMs !== undefined && (typeof cooldownMs !== 'number' || !(cooldownMs >= 0))) {
+    throw new Error('[canon] emitGuard.cooldownMs must be a non-negative number');
+  }
+}
+
+/**
+ * Get (or create) the circuit for an emit function
+ */
+function getCircuit(emit: EmitFunction): CircuitState {
+  let circuit = circuits.get(emit);
+  if (!circuit) {
+    circuit = { failures: 0, openUntil: 0, probing: false };
+    circuits.set(emit, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Send an event to the fallback; a failing fallback only loses the event
+ */
+function emitFallback(fallback: EmitFunction, event: WideEvent): void {
+  const report = (err: unknown): void => {
+    writeStderr(`[canon] fallbackEmit failed for request ${event.request_id}: ${describeError(err)}\n`);
+  };
+  
+  try {
+    const result: unknown = fallback(event);
+    if (isPromiseLike(result)) {
+      result.then(undefined, report);
+    }
+  } catch (err) {
+    report(err);
+  }
+}
+
+/**
+ * Check whether an emit function returned a promise
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<void> {
+  return value !== null
+    && typeof value === 'object'
+    && typeof (value as PromiseLike<void>).then === 'function';
+}
+
+/**
+ * Format a thrown value for stderr
+ */
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
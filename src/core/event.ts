@@ -7,6 +7,7 @@
 
 import type { CanonError, RequestOutcome, WideEvent } from '../types.js';
 import { mergeDeep, setPath, snapshot } from '../utils/merge.js';
+import { writeStderr } from '../utils/emit.js';
 import { durationMs } from '../utils/time.js';
 
 /**
@@ -24,13 +25,15 @@ interface EventBuilderState {
  * 
  * @param initialData - Initial event data (request_id, timestamp, etc.)
  * @param startTime - High-resolution start time for duration calculation
+ * @param onLateMutation - Called with the method name when the event is mutated after finalization
  * @returns Event builder with enrich/set/finalize methods
  */
 export function createEventBuilder(
   initialData: Partial<WideEvent>,
-  startTime: number
+  startTime: number,
+  onLateMutation?: (method: string) => void
 ): EventBuilder {
-  return new EventBuilder(initialData, startTime);
+  return new EventBuilder(initialData, startTime, onLateMutation);
 }
 
 /**
@@ -39,8 +42,14 @@ export function createEventBuilder(
  */
 export class EventBuilder {
   private state: EventBuilderState;
+  private onLateMutation?: (method: string) => void;
   
-  constructor(initialData: Partial<WideEvent>, startTime: number) {
+  constructor(
+    initialData: Partial<WideEvent>,
+    startTime: number,
+    onLateMutation?: (method: string) => void
+  ) {
+    this.onLateMutation = onLateMutation;
     this.state = {
       event: { ...initialData },
       startTime,
@@ -55,9 +64,7 @@ export class EventBuilder {
    */
   enrich(obj: Record<string, unknown>): void {
     if (this.state.finalized) {
-      process.stderr.write(
-        `[canon] warning: enrich() called after finalization, ignoring\n`
-      );
+      this.rejectLateMutation('enrich');
       return;
     }
     
@@ -73,9 +80,7 @@ export class EventBuilder {
    */
   set(path: string, value: unknown): void {
     if (this.state.finalized) {
-      process.stderr.write(
-        `[canon] warning: set() called after finalization, ignoring\n`
-      );
+      this.rejectLateMutation('set');
       return;
     }
     
@@ -100,9 +105,7 @@ export class EventBuilder {
    */
   markError(err: unknown): void {
     if (this.state.finalized) {
-      process.stderr.write(
-        `[canon] warning: markError() called after finalization, ignoring\n`
-      );
+      this.rejectLateMutation('markError');
       return;
     }
     
@@ -119,12 +122,12 @@ export class EventBuilder {
    * Calculates duration and locks the builder
    * 
    * @param outcome - Request outcome (success/error/aborted)
-   * @param statusCode - HTTP status code from response
+   * @param statusCode - HTTP status code from response (omitted for jobs)
    * @returns Finalized event snapshot
    */
   finalize(
     outcome: RequestOutcome,
-    statusCode: number
+    statusCode?: number
   ): Partial<WideEvent> {
     if (this.state.finalized) {
       return snapshot(this.state.event);
@@ -133,12 +136,14 @@ export class EventBuilder {
     this.state.finalized = true;
     
     this.state.event.duration_ms = durationMs(this.state.startTime);
-    this.state.event.status_code = statusCode;
+    if (statusCode !== undefined) {
+      this.state.event.status_code = statusCode;
+    }
     
     if (!this.state.event.outcome) {
       if (outcome === 'aborted') {
         this.state.event.outcome = 'aborted';
-      } else if (this.state.event.error || statusCode >= 500) {
+      } else if (this.state.event.error || (statusCode ?? 0) >= 500) {
         this.state.event.outcome = 'error';
       } else {
         this.state.event.outcome = outcome;
@@ -170,6 +175,16 @@ export class EventBuilder {
     this.state.emitted = true;
   }
   
+  /**
+   * Warn about (and report) a mutation attempted after finalization
+   */
+  private rejectLateMutation(method: string): void {
+    writeStderr(
+      `[canon] warning: ${method}() called after finalization, ignoring\n`
+    );
+    this.onLateMutation?.(method);
+  }
+  
   /**
    * Get the raw event reference (for internal use only)
    * WARNING: Do not mutate the returned object
@@ -0,0 +1,93 @@
+/**
+ * Job Runner
+ * 
+ * One job run = one canonical wide event, for work that is not an HTTP request:
+ * queue consumers, cron jobs, scheduled tasks.
+ * 
+ *   await canonJob({ name: 'send-invoice', attempt: msg.attempt }, config, async (canon) => {
+ *     canon.set('invoice.id', msg.invoiceId);
+ *     await sendInvoice(msg);
+ *   });
+ * 
+ * Events carry job.name and job.attempt instead of method, path and status_code,
+ * and are validated with the 'job' schema mode.
+ */
+
+import type { CanonConfig, CanonContext, CanonSchema } from '../types.js';
+import {
+  createCanonContext,
+  resolveDebug,
+  resolveTraceContext,
+  validateCanonConfig,
+} from './canon.js';
+import { runInCanonScope } from './ambient.js';
+import { generateRequestId } from '../utils/ids.js';
+
+/**
+ * Description of a job run
+ */
+export interface JobOptions {
+  name: string;
+  attempt?: number;
+  id?: string;
+  traceId?: string;
+  traceparent?: string;
+  tracestate?: string;
+}
+
+/**
+ * Run a function as a Canon unit of work
+ * 
+ * Emits exactly one event when fn settles. Errors thrown by fn are
+ * normalized via markError(), emitted with outcome 'error', and rethrown.
+ * 
+ * @param job - Job name, or job options (name, attempt, id, traceId, traceparent)
+ * @param config - Canon configuration
+ * @param fn - Job body; receives the Canon context, typed by config.schema
+ * @returns Resolved value of fn
+ */
+export async function canonJob<T, S extends CanonSchema<any> = CanonSchema>(
+  job: string | JobOptions,
+  config: CanonConfig & { schema?: S },
+  fn: (canon: CanonContext<S>) => T | Promise<T>
+): Promise<T> {
+  validateCanonConfig(config);
+  
+  const options: JobOptions = typeof job === 'string' ? { name: job } : job;
+  
+  const jobConfig: CanonConfig = {
+    ...config,
+    schema: toJobSchema(config.schema),
+  };
+  
+  const { traceId, w3c } = resolveTraceContext(config, options);
+  
+  const { context, emit } = createCanonContext(
+    jobConfig,
+    options.id ?? generateRequestId(),
+    traceId,
+    { job: { name: options.name, attempt: options.attempt ?? 1 } },
+    resolveDebug(config),
+    w3c
+  );
+  
+  try {
+    const result = await runInCanonScope(config, context, () => fn(context));
+    emit('success');
+    return result;
+  } catch (err) {
+    context.markError(err);
+    emit('error');
+    throw err;
+  }
+}
+
+/**
+ * Switch a schema to job mode, creating an empty one if needed
+ */
+function toJobSchema(schema: CanonSchema | undefined): CanonSchema {
+  if (!schema) {
+    return { required: [], fields: {}, mode: 'job' };
+  }
+  return { ...schema, mode: 'job' };
+}
@@ -0,0 +1,458 @@
+/**
+ * JSON Schema Interop
+ * 
+ * Converts Canon schemas to and from JSON Schema (draft 2020-12), so one
+ * schema can drive both the service and downstream validation:
+ * 
+ *   const doc = toJsonSchema(schema);    // dot-paths become nested properties
+ *   const schema = fromJsonSchema(doc);  // nested properties become dot-paths
+ * 
+ * Canon-only metadata (pii, redaction, cardinality) is kept in the custom
+ * "x-canon" keyword, which JSON Schema validators ignore. The document's root
+ * "x-canon" carries the schema mode and unknownMode.
+ */
+
+import type {
+  CanonSchema,
+  FieldDefinition,
+  FieldFormat,
+  FieldType,
+  RedactionStrategy,
+  SchemaMode,
+  UnknownFieldMode,
+} from '../types.js';
+import { defineCanonSchema, getBuiltInRequired } from './schema.js';
+
+/**
+ * JSON Schema dialect emitted by toJsonSchema()
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Custom keyword holding Canon-only metadata
+ */
+export const CANON_JSON_SCHEMA_KEYWORD = 'x-canon';
+
+/**
+ * Type names used by JSON Schema
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Canon metadata stored under the "x-canon" keyword
+ * Field nodes carry pii/redaction/cardinality; the root carries mode/unknownMode
+ */
+export interface CanonJsonSchemaKeyword {
+  pii?: boolean;
+  redaction?: RedactionStrategy;
+  cardinality?: 'low' | 'high';
+  mode?: SchemaMode;
+  unknownMode?: UnknownFieldMode;
+}
+
+/**
+ * Subset of JSON Schema understood by toJsonSchema() and fromJsonSchema()
+ * Other keywords (title, description, ...) are allowed and ignored on import
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  items?: JsonSchema;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  'x-canon'?: CanonJsonSchemaKeyword;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Options for toJsonSchema()
+ */
+export interface ToJsonSchemaOptions {
+  id?: string;
+  title?: string;
+}
+
+/**
+ * FieldDefinition.format values and their JSON Schema names
+ */
+const FORMAT_NAMES: Record<FieldFormat, string> = {
+  'uuid': 'uuid',
+  'email': 'email',
+  'iso-datetime': 'date-time',
+  'url': 'uri',
+};
+
+/**
+ * Composition keywords that cannot be mapped to field definitions
+ */
+const UNSUPPORTED_KEYWORDS = ['$ref', '$dynamicRef', 'allOf', 'anyOf', 'oneOf', 'not', 'if'];
+
+/**
+ * Wildcard path segment (any object key or array index)
+ */
+const WILDCARD = '*';
+
+/**
+ * Node of the path tree built from dot-path fields
+ */
+interface PathNode {
+  definition?: FieldDefinition;
+  children: Map<string, PathNode>;
+  required: string[];
+}
+
+/**
+ * Convert a Canon schema to a JSON Schema document
+ * 
+ * Dot-paths are expanded into nested "properties" and "required"; a '*'
+ * segment becomes "items" under array fields and "additionalProperties"
+ * elsewhere. Built-in required fields for the schema mode are included.
+ * With unknownMode 'deny', objects with known keys get additionalProperties: false.
+ * 
+ * @param schema - Canon schema (from defineCanonSchema())
+ * @param opts - Optional $id and title for the document
+ * @returns JSON Schema (draft 2020-12) document describing one event
+ * @throws Error for RegExp patterns with flags
+ */
+export function toJsonSchema(schema: CanonSchema, opts: ToJsonSchemaOptions = {}): JsonSchema {
+  const root: PathNode = { children: new Map(), required: [] };
+  
+  const childOf = (node: PathNode, segment: string): PathNode => {
+    let child = node.children.get(segment);
+    if (!child) {
+      child = { children: new Map(), required: [] };
+      node.children.set(segment, child);
+    }
+    return child;
+  };
+  
+  for (const [path, definition] of Object.entries(schema.fields)) {
+    path.split('.').reduce(childOf, root).definition = definition;
+  }
+  
+  for (const path of new Set([...getBuiltInRequired(schema.mode), ...schema.required])) {
+    path.split('.').reduce((parent, segment) => {
+      if (segment !== WILDCARD && !parent.required.includes(segment)) {
+        parent.required.push(segment);
+      }
+      return childOf(parent, segment);
+    }, root);
+  }
+  
+  const doc: JsonSchema = { $schema: JSON_SCHEMA_DIALECT };
+  if (opts.id) doc.$id = opts.id;
+  if (opts.title) doc.title = opts.title;
+  
+  const meta: CanonJsonSchemaKeyword = { unknownMode: schema.unknownMode ?? 'allow' };
+  if (schema.mode) meta.mode = schema.mode;
+  
+  return {
+    ...doc,
+    ...nodeToJson(root, '', schema.unknownMode === 'deny'),
+    [CANON_JSON_SCHEMA_KEYWORD]: meta,
+  };
+}
+
+/**
+ * Convert a JSON Schema document to a Canon schema
+ * 
+ * Nested "properties" become dot-paths ("user": {"id"} → 'user.id') and
+ * "additionalProperties" schemas become '*' paths. Objects inside arrays keep
+ * their nested properties. "x-canon" metadata is restored; without it,
+ * unknownMode is 'deny' when the root sets additionalProperties: false.
+ * 
+ * @param doc - JSON Schema document describing one event
+ * @returns Canon schema, merged over the base fields like defineCanonSchema()
+ * @throws Error for composition keywords ($ref, allOf, ...) and unmappable types
+ */
+export function fromJsonSchema(doc: JsonSchema): CanonSchema {
+  const rootTypes = toTypeList(doc);
+  if (rootTypes.length > 0 && !rootTypes.includes('object')) {
+    throw new Error('[canon] Unsupported JSON Schema: root must describe an object');
+  }
+  
+  const fields: Record<string, FieldDefinition> = {};
+  const required: string[] = [];
+  collectFields(doc, '', fields, required);
+  
+  const meta = doc[CANON_JSON_SCHEMA_KEYWORD];
+  const mode = meta?.mode;
+  const builtIn = new Set(getBuiltInRequired(mode));
+  
+  return defineCanonSchema({
+    required: required.filter(path =>
+      !builtIn.has(path) && !required.some(other => other.startsWith(path + '.'))
+    ),
+    fields,
+    unknownMode: meta?.unknownMode ?? (doc.additionalProperties === false ? 'deny' : 'allow'),
+    mode,
+  });
+}
+
+/**
+ * Emit the JSON Schema for a path node: its definition merged with its children
+ */
+function nodeToJson(node: PathNode, path: string, deny: boolean): JsonSchema {
+  const json: JsonSchema = node.definition ? fieldToJson(node.definition, path) : {};
+  const join = (key: string): string => (path ? `${path}.${key}` : key);
+  const wildcard = node.children.get(WILDCARD);
+  const keys = [...node.children].filter(([key]) => key !== WILDCARD);
+  
+  if (keys.length > 0) {
+    json.type ??= 'object';
+    json.properties = { ...json.properties };
+    for (const [key, child] of keys) {
+      json.properties[key] = nodeToJson(child, join(key), deny);
+    }
+  }
+  
+  if (wildcard) {
+    const element = nodeToJson(wildcard, join(WILDCARD), deny);
+    if (node.definition?.type === 'array') {
+      json.items = element;
+    } else if (node.definition) {
+      json.additionalProperties = element;
+    } else {
+      json.items = element;
+      json.additionalProperties = element;
+    }
+  } else if (deny && json.properties && json.additionalProperties === undefined) {
+    json.additionalProperties = false;
+  }
+  
+  if (node.required.length > 0) {
+    json.required = [...new Set([...(json.required ?? []), ...node.required])];
+  }
+  
+  return json;
+}
+
+/**
+ * Map a field definition to JSON Schema keywords
+ */
+function fieldToJson(definition: FieldDefinition, path: string): JsonSchema {
+  const nullable = definition.nullable !== false;
+  const type: JsonSchemaType = definition.type === 'number' && definition.integer ? 'integer' : definition.type;
+  const json: JsonSchema = { type: nullable ? [type, 'null'] : type };
+  
+  if (definition.enum) json.enum = nullable ? [...definition.enum, null] : [...definition.enum];
+  if (definition.min !== undefined) json.minimum = definition.min;
+  if (definition.max !== undefined) json.maximum = definition.max;
+  if (definition.minLength !== undefined) json.minLength = definition.minLength;
+  if (definition.maxLength !== undefined) json.maxLength = definition.maxLength;
+  if (definition.pattern !== undefined) {
+    json.pattern = toJsonPattern(definition.pattern, path);
+  }
+  if (definition.format) json.format = FORMAT_NAMES[definition.format];
+  if (definition.items) json.items = fieldToJson(definition.items, `${path}[]`);
+  if (definition.maxItems !== undefined) json.maxItems = definition.maxItems;
+  if (definition.properties) {
+    json.properties = {};
+    for (const [key, property] of Object.entries(definition.properties)) {
+      json.properties[key] = fieldToJson(property, `${path}.${key}`);
+    }
+  }
+  if (definition.additionalProperties) json.additionalProperties = true;
+  
+  const meta: CanonJsonSchemaKeyword = {};
+  if (definition.pii) meta.pii = true;
+  if (definition.redaction) meta.redaction = definition.redaction;
+  if (definition.cardinality) meta.cardinality = definition.cardinality;
+  if (Object.keys(meta).length > 0) json[CANON_JSON_SCHEMA_KEYWORD] = meta;
+  
+  return json;
+}
+
+/**
+ * Convert a field pattern to a JSON Schema "pattern" string
+ * 
+ * @throws Error for RegExps with flags, which "pattern" cannot express
+ */
+function toJsonPattern(pattern: string | RegExp, path: string): string {
+  if (typeof pattern === 'string') {
+    return pattern;
+  }
+  if (pattern.flags) {
+    throw new Error(
+      `[canon] Cannot convert "${path}" to JSON Schema: pattern ${pattern} uses flags, which JSON Schema cannot express`
+    );
+  }
+  return pattern.source;
+}
+
+/**
+ * Walk an object node, adding dot-path fields and required paths
+ * Plain containers (non-null objects without Canon metadata) only contribute their children
+ */
+function collectFields(
+  node: JsonSchema,
+  path: string,
+  fields: Record<string, FieldDefinition>,
+  required: string[]
+): void {
+  const join = (key: string): string => (path ? `${path}.${key}` : key);
+  const wildcard = isSchema(node.additionalProperties) ? node.additionalProperties : undefined;
+  
+  for (const [key, child] of Object.entries(node.properties ?? {})) {
+    addField(child, join(key), fields, required);
+  }
+  if (wildcard) {
+    addField(wildcard, join(WILDCARD), fields, required);
+  }
+  for (const key of node.required ?? []) {
+    required.push(join(key));
+  }
+}
+
+/**
+ * Add the field(s) described by a property node
+ * Nodes without type or type-implying keywords ({}) accept anything and add no field
+ */
+function addField(
+  node: JsonSchema,
+  path: string,
+  fields: Record<string, FieldDefinition>,
+  required: string[]
+): void {
+  assertSupported(node, path);
+  
+  const types = toTypeList(node);
+  const nested = node.properties !== undefined || isSchema(node.additionalProperties);
+  
+  if (!nested) {
+    if (types.length > 0 || inferType(node) !== undefined) {
+      fields[path] = fieldFromJson(node, path);
+    }
+    return;
+  }
+  
+  if (types.length > 1 || (types.length === 1 && types[0] !== 'object')) {
+    fields[path] = fieldFromJson(node, path);
+    return;
+  }
+  
+  const open = node.additionalProperties === true;
+  const container = types.length === 0
+    || (!allowsNull(node) && !node[CANON_JSON_SCHEMA_KEYWORD] && !open);
+  if (!container) {
+    fields[path] = fieldFromJson({ ...node, properties: undefined, additionalProperties: open || undefined }, path);
+  }
+  
+  collectFields(node, path, fields, required);
+}
+
+/**
+ * Map JSON Schema keywords to a field definition
+ */
+function fieldFromJson(node: JsonSchema, path: string): FieldDefinition {
+  assertSupported(node, path);
+  
+  const types = toTypeList(node);
+  if (types.length > 1) {
+    throw new Error(`[canon] Unsupported JSON Schema at "${path}": multiple types (${types.join(', ')})`);
+  }
+  
+  const jsonType = types[0] ?? inferType(node);
+  if (!jsonType) {
+    throw new Error(`[canon] Unsupported JSON Schema at "${path}": missing type`);
+  }
+  const definition: FieldDefinition = { type: jsonType === 'integer' ? 'number' : jsonType };
+  
+  if (jsonType === 'integer') definition.integer = true;
+  if (!allowsNull(node)) definition.nullable = false;
+  
+  if (node.enum) {
+    definition.enum = node.enum.filter(
+      (value): value is string | number | boolean => value !== null
+    );
+  }
+  if (node.minimum !== undefined) definition.min = node.minimum;
+  if (node.maximum !== undefined) definition.max = node.maximum;
+  if (node.minLength !== undefined) definition.minLength = node.minLength;
+  if (node.maxLength !== undefined) definition.maxLength = node.maxLength;
+  if (node.pattern !== undefined) definition.pattern = node.pattern;
+  
+  const format = Object.entries(FORMAT_NAMES).find(([, name]) => name === node.format);
+  if (format) definition.format = format[0] as FieldFormat;
+  
+  if (node.items) definition.items = fieldFromJson(node.items, `${path}[]`);
+  if (node.maxItems !== undefined) definition.maxItems = node.maxItems;
+  if (node.properties) {
+    definition.properties = {};
+    for (const [key, property] of Object.entries(node.properties)) {
+      definition.properties[key] = fieldFromJson(property, `${path}.${key}`);
+    }
+  }
+  if (node.additionalProperties === true || isSchema(node.additionalProperties)) {
+    definition.additionalProperties = true;
+  }
+  
+  const meta = node[CANON_JSON_SCHEMA_KEYWORD];
+  if (meta?.pii) definition.pii = true;
+  if (meta?.redaction) definition.redaction = meta.redaction;
+  if (meta?.cardinality) definition.cardinality = meta.cardinality;
+  
+  return definition;
+}
+
+/**
+ * Non-null types of a node ("type" as a list)
+ */
+function toTypeList(node: JsonSchema): Exclude<JsonSchemaType, 'null'>[] {
+  const types = node.type === undefined ? [] : Array.isArray(node.type) ? node.type : [node.type];
+  return types.filter((type): type is Exclude<JsonSchemaType, 'null'> => type !== 'null');
+}
+
+/**
+ * A node accepts null when "type" includes "null" or is absent
+ */
+function allowsNull(node: JsonSchema): boolean {
+  if (node.type === undefined) {
+    return !node.enum || node.enum.includes(null);
+  }
+  return Array.isArray(node.type) ? node.type.includes('null') : node.type === 'null';
+}
+
+/**
+ * Infer a field type for nodes without "type" (from properties, items or enum values)
+ */
+function inferType(node: JsonSchema): FieldType | undefined {
+  if (node.properties) return 'object';
+  if (node.items) return 'array';
+  
+  const values = (node.enum ?? []).filter(value => value !== null);
+  const kinds = new Set(values.map(value => typeof value));
+  const [kind] = kinds;
+  if (kinds.size === 1 && (kind === 'string' || kind === 'number' || kind === 'boolean')) {
+    return kind;
+  }
+  return undefined;
+}
+
+/**
+ * Reject composition keywords, which have no field definition equivalent
+ */
+function assertSupported(node: JsonSchema, path: string): void {
+  const keyword = UNSUPPORTED_KEYWORDS.find(name => node[name] !== undefined);
+  if (keyword) {
+    throw new Error(`[canon] Unsupported JSON Schema at "${path}": "${keyword}" is not supported`);
+  }
+}
+
+/**
+ * Whether an additionalProperties value is a subschema
+ */
+function isSchema(value: boolean | JsonSchema | undefined): value is JsonSchema {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,280 @@
+/**
+ * Pre-Sampling Metrics
+ * 
+ * Sampling drops most success events, so counts and latency distributions
+ * derived from emitted events are incomplete. The aggregator observes every
+ * finalized event BEFORE sampling and keeps, per label set:
+ * - a request counter
+ * - a latency histogram (duration_ms)
+ * 
+ * It also counts pipeline results per service: events emitted, sampled out,
+ * and validation errors.
+ * 
+ * Labels default to service/route/method/status_code/outcome. Fields marked
+ * `cardinality: 'high'` in the schema (or Canon's base fields, e.g. path,
+ * request_id) are never used as labels.
+ */
+
+import type { CanonSchema, FieldDefinition, MetricsObserver, WideEvent } from '../types.js';
+import { CANON_BASE_FIELDS } from './schema.js';
+import { getPath } from '../utils/merge.js';
+import { writeStderr } from '../utils/emit.js';
+
+/**
+ * One label set with its counter and latency histogram
+ */
+export interface MetricSeries {
+  labels: Record<string, string>;
+  count: number;
+  sum: number;
+  
+  /**
+   * Cumulative counts per bucket: bucketCounts[i] = events with duration <= buckets[i]
+   */
+  bucketCounts: number[];
+}
+
+/**
+ * Pipeline counters for one service
+ */
+export interface PipelineCounters {
+  service: string;
+  emitted: number;
+  sampledOut: number;
+  validationErrors: number;
+}
+
+/**
+ * Point-in-time copy of all series (cumulative since creation or reset)
+ */
+export interface MetricsSnapshot {
+  timestamp: string;
+  labels: string[];
+  buckets: number[];
+  series: MetricSeries[];
+  pipeline: PipelineCounters[];
+}
+
+/**
+ * Receives snapshots on an interval and on flush()/close()
+ */
+export type MetricsExporter = (snapshot: MetricsSnapshot) => void | Promise<void>;
+
+/**
+ * Options for createMetricsAggregator()
+ */
+export interface MetricsAggregatorOptions {
+  labels?: string[];
+  buckets?: number[];
+  schema?: CanonSchema;
+  exporter?: MetricsExporter;
+  exportIntervalMs?: number;
+  maxSeries?: number;
+}
+
+/**
+ * In-process metrics aggregator
+ */
+export interface MetricsAggregator extends MetricsObserver {
+  recordEmitted(event: Partial<WideEvent>): void;
+  recordSampledOut(event: Partial<WideEvent>): void;
+  recordValidationErrors(event: Partial<WideEvent>, count: number): void;
+  
+  /**
+   * Get a copy of all series
+   */
+  snapshot(): MetricsSnapshot;
+  
+  /**
+   * Clear all series
+   */
+  reset(): void;
+  
+  /**
+   * Export the current snapshot now
+   */
+  flush(): Promise<void>;
+  
+  /**
+   * Stop the export timer and export a final snapshot
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Default aggregation settings
+ */
+export const METRICS_DEFAULTS = {
+  labels: ['service', 'route', 'method', 'status_code', 'outcome'],
+  buckets: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+  exportIntervalMs: 60_000,
+  maxSeries: 2000,
+} as const;
+
+/**
+ * Label value used once maxSeries distinct label sets exist
+ */
+const OVERFLOW_LABEL_VALUE = '__overflow__';
+
+/**
+ * Create a metrics aggregator
+ * Pass it as CanonConfig.metrics to observe every request
+ * 
+ * @param opts - Labels, histogram buckets, exporter and limits
+ */
+export function createMetricsAggregator(opts: MetricsAggregatorOptions = {}): MetricsAggregator {
+  const buckets = [...(opts.buckets ?? METRICS_DEFAULTS.buckets)].sort((a, b) => a - b);
+  const maxSeries = opts.maxSeries ?? METRICS_DEFAULTS.maxSeries;
+  const configuredLabels = [...(opts.labels ?? METRICS_DEFAULTS.labels)];
+  const labelsBySchema = new WeakMap<CanonSchema, string[]>();
+  const baseLabels = filterLabels(configuredLabels, opts.schema);
+  
+  let series = new Map<string, MetricSeries>();
+  let pipeline = new Map<string, PipelineCounters>();
+  
+  const countersFor = (event: Partial<WideEvent>): PipelineCounters => {
+    const service = event.service ?? '';
+    let counters = pipeline.get(service);
+    if (!counters) {
+      counters = { service, emitted: 0, sampledOut: 0, validationErrors: 0 };
+      pipeline.set(service, counters);
+    }
+    return counters;
+  };
+  
+  const resolveLabels = (schema: CanonSchema | undefined): string[] => {
+    if (!schema || schema === opts.schema) {
+      return baseLabels;
+    }
+    let labels = labelsBySchema.get(schema);
+    if (!labels) {
+      labels = filterLabels(baseLabels, schema);
+      labelsBySchema.set(schema, labels);
+    }
+    return labels;
+  };
+  
+  const observe = (event: Partial<WideEvent>, schema?: CanonSchema): void => {
+    const labelNames = resolveLabels(schema);
+    const record = event as Record<string, unknown>;
+    
+    let labels: Record<string, string> = {};
+    for (const name of labelNames) {
+      labels[name] = toLabelValue(getPath(record, name));
+    }
+    
+    let key = JSON.stringify(labels);
+    if (!series.has(key) && series.size >= maxSeries) {
+      labels = Object.fromEntries(labelNames.map(name => [name, OVERFLOW_LABEL_VALUE]));
+      key = JSON.stringify(labels);
+    }
+    
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { labels, count: 0, sum: 0, bucketCounts: buckets.map(() => 0) };
+      series.set(key, entry);
+    }
+    
+    const duration = event.duration_ms ?? 0;
+    entry.count++;
+    entry.sum += duration;
+    for (let i = 0; i < buckets.length; i++) {
+      if (duration <= buckets[i]) {
+        entry.bucketCounts[i]++;
+      }
+    }
+  };
+  
+  const snapshot = (): MetricsSnapshot => ({
+    timestamp: new Date().toISOString(),
+    labels: baseLabels,
+    buckets: [...buckets],
+    series: Array.from(series.values(), entry => ({
+      labels: { ...entry.labels },
+      count: entry.count,
+      sum: entry.sum,
+      bucketCounts: [...entry.bucketCounts],
+    })),
+    pipeline: Array.from(pipeline.values(), counters => ({ ...counters })),
+  });
+  
+  const flush = async (): Promise<void> => {
+    if (!opts.exporter) return;
+    try {
+      await opts.exporter(snapshot());
+    } catch (err) {
+      writeStderr(`[canon] metrics export failed: ${err instanceof Error ? err.message : String(err)}\n`);
+    }
+  };
+  
+  const interval = opts.exportIntervalMs ?? METRICS_DEFAULTS.exportIntervalMs;
+  const timer = opts.exporter && interval > 0
+    ? setInterval(() => void flush(), interval)
+    : undefined;
+  timer?.unref?.();
+  
+  return {
+    observe,
+    recordEmitted(event: Partial<WideEvent>): void {
+      countersFor(event).emitted++;
+    },
+    recordSampledOut(event: Partial<WideEvent>): void {
+      countersFor(event).sampledOut++;
+    },
+    recordValidationErrors(event: Partial<WideEvent>, count: number): void {
+      countersFor(event).validationErrors += count;
+    },
+    snapshot,
+    reset(): void {
+      series = new Map();
+      pipeline = new Map();
+    },
+    flush,
+    async close(): Promise<void> {
+      if (timer) clearInterval(timer);
+      await flush();
+    },
+  };
+}
+
+/**
+ * Shared aggregator used by `metrics: true` and canonMetricsHandler()
+ */
+let defaultAggregator: MetricsAggregator | undefined;
+
+/**
+ * Get the shared default aggregator, creating it on first use
+ */
+export function getDefaultMetricsAggregator(): MetricsAggregator {
+  defaultAggregator ??= createMetricsAggregator();
+  return defaultAggregator;
+}
+
+/**
+ * Resolve CanonConfig.metrics into an observer
+ */
+export function resolveMetrics(metrics: MetricsObserver | boolean | undefined): MetricsObserver | undefined {
+  if (metrics === true) {
+    return getDefaultMetricsAggregator();
+  }
+  return metrics || undefined;
+}
+
+/**
+ * Drop labels whose field is declared high-cardinality
+ */
+function filterLabels(labels: string[], schema: CanonSchema | undefined): string[] {
+  return labels.filter(label => {
+    const definition: FieldDefinition | undefined = schema?.fields[label] ?? CANON_BASE_FIELDS[label];
+    return definition?.cardinality !== 'high';
+  });
+}
+
+/**
+ * Convert a field value into a label value
+ */
+function toLabelValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
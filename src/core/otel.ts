@@ -1,10 +1,25 @@
 /**
  * OpenTelemetry Integration (Optional)
  * 
- * Provides optional span enrichment when OpenTelemetry is available.
+ * Provides optional span enrichment when OpenTelemetry is available,
+ * and starts one server span per request when `otelSpans` is enabled.
  * This is a soft dependency - no-op if OTel is not installed.
  */
 
+import type { WideEvent } from '../types.js';
+import type { W3CTraceContext } from '../utils/traceparent.js';
+import { importOptional, requireOptional } from '../utils/runtime.js';
+
+/**
+ * OpenTelemetry span context (minimal subset)
+ */
+interface OTelSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  isRemote?: boolean;
+}
+
 /**
  * OpenTelemetry span interface (minimal subset)
  * We don't import OTel types to keep it as a soft dependency
@@ -12,13 +27,107 @@
 interface OTelSpan {
   setAttribute(key: string, value: unknown): void;
   setAttributes(attributes: Record<string, unknown>): void;
+  spanContext(): OTelSpanContext;
+  isRecording(): boolean;
+  updateName(name: string): void;
+  setStatus(status: { code: number; message?: string }): void;
+  end(): void;
 }
 
+/**
+ * OpenTelemetry context (opaque)
+ */
+type OTelContext = object;
+
 /**
  * OpenTelemetry trace API interface (minimal subset)
  */
 interface OTelTraceApi {
   getActiveSpan(): OTelSpan | undefined;
+  getTracer(name: string): {
+    startSpan(name: string, options: { kind: number }, context: OTelContext): OTelSpan;
+  };
+  setSpan(context: OTelContext, span: OTelSpan): OTelContext;
+  setSpanContext(context: OTelContext, spanContext: OTelSpanContext): OTelContext;
+}
+
+/**
+ * OpenTelemetry API module (minimal subset)
+ */
+interface OTelApi {
+  trace: OTelTraceApi;
+  context: {
+    active(): OTelContext;
+    with<T>(context: OTelContext, fn: () => T): T;
+  };
+}
+
+/**
+ * Span kinds and status codes from @opentelemetry/api
+ */
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_SERVER = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Instrumentation scope for spans started by Canon
+ */
+const TRACER_NAME = 'canon-observability';
+
+/**
+ * Event fields already represented by the span itself
+ */
+const SPAN_OWN_FIELDS = new Set(['timestamp', 'trace_id', 'span_id', 'parent_span_id']);
+
+/**
+ * Module specifier of the OTel API
+ */
+const OTEL_API_MODULE = '@opentelemetry/api';
+
+/**
+ * Loaded OTel API: undefined until first lookup, null when not installed
+ */
+let otelApi: OTelApi | null | undefined;
+
+/**
+ * Pending asynchronous load, for runtimes that cannot require synchronously
+ */
+let otelApiLoading: Promise<boolean> | undefined;
+
+/**
+ * Get the OTel API, loading it on first use
+ * Loads synchronously where possible (CommonJS, Node.js >= 20.16). Otherwise
+ * starts a dynamic import and reports OTel as unavailable until it resolves;
+ * await loadOTel() at startup to have it ready for the first request.
+ */
+function loadOTelApi(): OTelApi | undefined {
+  if (otelApi === undefined) {
+    const api = requireOptional<OTelApi>(OTEL_API_MODULE);
+    if (api?.trace) {
+      otelApi = api;
+    } else {
+      void loadOTel();
+    }
+  }
+  return otelApi ?? undefined;
+}
+
+/**
+ * Load @opentelemetry/api ahead of the first request
+ * Only needed on runtimes without synchronous loading (ESM on Node.js < 20.16),
+ * where spans otherwise start once the background load has finished
+ * 
+ * @returns Whether the OTel API is available
+ */
+export function loadOTel(): Promise<boolean> {
+  if (otelApi !== undefined) {
+    return Promise.resolve(otelApi !== null);
+  }
+  otelApiLoading ??= importOptional<OTelApi>(OTEL_API_MODULE).then(api => {
+    otelApi = api?.trace ? api : null;
+    return otelApi !== null;
+  });
+  return otelApiLoading;
 }
 
 /**
@@ -26,12 +135,7 @@ interface OTelTraceApi {
  * Returns undefined if OTel is not installed
  */
 function tryGetTraceApi(): OTelTraceApi | undefined {
-  try {
-    const otel = require('@opentelemetry/api');
-    return otel.trace as OTelTraceApi;
-  } catch {
-    return undefined;
-  }
+  return loadOTelApi()?.trace;
 }
 
 /**
@@ -78,7 +182,7 @@ export function addSpanAttribute(key: string, value: unknown): void {
  * @param prefix - Key prefix for recursion
  * @returns Flattened object with dot-notation keys
  */
-function flattenAttributes(
+export function flattenAttributes(
   obj: Record<string, unknown>,
   prefix: string = ''
 ): Record<string, unknown> {
@@ -136,3 +240,105 @@ export function isOTelAvailable(): boolean {
   return tryGetTraceApi() !== undefined;
 }
 
+
+/**
+ * Server span started by Canon for one request or job
+ */
+export interface RequestSpan {
+  traceId: string;
+  spanId: string;
+  traceFlags: string;
+  
+  /**
+   * Add attributes to the span
+   */
+  setAttributes(attrs: Record<string, unknown>): void;
+  
+  /**
+   * Run a function with this span as the active OTel span
+   */
+  run<T>(fn: () => T): T;
+  
+  /**
+   * Copy the final event onto the span, set its status and end it
+   */
+  end(event: Partial<WideEvent>): void;
+}
+
+/**
+ * Start a span for a request or job
+ * Returns undefined when OTel is not installed or no SDK is recording
+ * 
+ * @param event - Initial event data (method or job name, route)
+ * @param traceId - Trace ID of the request
+ * @param w3c - Incoming W3C context; its parentSpanId becomes the span's parent
+ */
+export function startRequestSpan(
+  event: Partial<WideEvent>,
+  traceId: string,
+  w3c: W3CTraceContext
+): RequestSpan | undefined {
+  const api = loadOTelApi();
+  if (!api) return undefined;
+  
+  let parentContext = api.context.active();
+  if (w3c.parentSpanId) {
+    parentContext = api.trace.setSpanContext(parentContext, {
+      traceId,
+      spanId: w3c.parentSpanId,
+      traceFlags: parseInt(w3c.traceFlags, 16),
+      isRemote: true,
+    });
+  }
+  
+  const kind = event.method ? SPAN_KIND_SERVER : SPAN_KIND_INTERNAL;
+  const span = api.trace.getTracer(TRACER_NAME).startSpan(getSpanName(event), { kind }, parentContext);
+  if (!span.isRecording()) {
+    return undefined;
+  }
+  
+  const spanContext = span.spanContext();
+  const activeContext = api.trace.setSpan(parentContext, span);
+  
+  return {
+    traceId: spanContext.traceId,
+    spanId: spanContext.spanId,
+    traceFlags: spanContext.traceFlags.toString(16).padStart(2, '0'),
+    
+    setAttributes(attrs: Record<string, unknown>): void {
+      span.setAttributes(flattenAttributes(attrs));
+    },
+    
+    run<T>(fn: () => T): T {
+      return api.context.with(activeContext, fn);
+    },
+    
+    end(finalEvent: Partial<WideEvent>): void {
+      const attrs: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(finalEvent)) {
+        if (SPAN_OWN_FIELDS.has(key) || value === undefined) continue;
+        attrs[key] = value;
+      }
+      
+      span.updateName(getSpanName(finalEvent));
+      span.setAttributes(flattenAttributes(attrs));
+      
+      if (finalEvent.outcome === 'error' || (finalEvent.status_code ?? 0) >= 500) {
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: finalEvent.error?.message });
+      }
+      
+      span.end();
+    },
+  };
+}
+
+/**
+ * Low-cardinality span name: "GET /orders/:id", "GET" or "job send-invoice"
+ */
+function getSpanName(event: Partial<WideEvent>): string {
+  if (event.method) {
+    return event.route ? `${event.method} ${event.route}` : event.method;
+  }
+  const job = event.job as { name?: string } | undefined;
+  return job?.name ? `job ${job.name}` : 'canon';
+}
@@ -0,0 +1,90 @@
+/**
+ * Prometheus Exposition Format
+ * 
+ * Renders a metrics snapshot as Prometheus text (version 0.0.4):
+ * - canon_requests_total                 counter, per label set
+ * - canon_request_duration_ms            histogram, per label set
+ * - canon_events_emitted_total           counter, per service
+ * - canon_events_sampled_out_total       counter, per service
+ * - canon_validation_errors_total        counter, per service
+ */
+
+import type { MetricsSnapshot } from './metrics.js';
+
+/**
+ * Content-Type for the text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Render a snapshot in Prometheus text format
+ * 
+ * @param snapshot - Snapshot from a metrics aggregator
+ * @returns Exposition text, ending with a newline
+ */
+export function toPrometheusText(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  
+  lines.push(
+    '# HELP canon_requests_total Requests observed by Canon, before sampling.',
+    '# TYPE canon_requests_total counter'
+  );
+  for (const series of snapshot.series) {
+    lines.push(`canon_requests_total${formatLabels(series.labels)} ${series.count}`);
+  }
+  
+  lines.push(
+    '# HELP canon_request_duration_ms Request duration in milliseconds, before sampling.',
+    '# TYPE canon_request_duration_ms histogram'
+  );
+  for (const series of snapshot.series) {
+    snapshot.buckets.forEach((bound, i) => {
+      const labels = formatLabels({ ...series.labels, le: String(bound) });
+      lines.push(`canon_request_duration_ms_bucket${labels} ${series.bucketCounts[i]}`);
+    });
+    lines.push(`canon_request_duration_ms_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`canon_request_duration_ms_sum${formatLabels(series.labels)} ${series.sum}`);
+    lines.push(`canon_request_duration_ms_count${formatLabels(series.labels)} ${series.count}`);
+  }
+  
+  const pipelineMetrics = [
+    ['canon_events_emitted_total', 'Events emitted after sampling.', 'emitted'],
+    ['canon_events_sampled_out_total', 'Events dropped by sampling.', 'sampledOut'],
+    ['canon_validation_errors_total', 'Schema validation errors.', 'validationErrors'],
+  ] as const;
+  
+  for (const [name, help, field] of pipelineMetrics) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+    for (const counters of snapshot.pipeline) {
+      lines.push(`${name}${formatLabels({ service: counters.service })} ${counters[field]}`);
+    }
+  }
+  
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format a label set as {name="value",...}
+ * Field paths become valid label names (user.plan -> user_plan)
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${toLabelName(name)}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Convert a field path into a Prometheus label name
+ */
+function toLabelName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Escape a label value (backslash, double quote, newline)
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
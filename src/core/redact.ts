@@ -11,8 +11,8 @@
  * Critical: Always operates on a COPY of the event, never the original
  */
 
-import { createHash } from 'node:crypto';
 import type { CanonSchema, RedactionConfig, RedactionStrategy, WideEvent } from '../types.js';
+import { sha256Hex } from '../utils/crypto.js';
 import { getPath, setPath, snapshot } from '../utils/merge.js';
 
 /**
@@ -61,7 +61,7 @@ function maskValue(value: string): string {
  * Returns a deterministic hex string that can be used for correlation
  */
 function hashValue(value: string): string {
-  return createHash('sha256').update(value).digest('hex');
+  return sha256Hex(value);
 }
 
 /**
@@ -100,12 +100,14 @@ function redactValue(
  * @param event - Event to redact (will be cloned)
  * @param config - Redaction configuration
  * @param schema - Optional schema for per-field redaction strategies
+ * @param onRedacted - Called with each field path that was redacted
  * @returns New event with redacted fields
  */
 export function applyRedaction(
   event: Partial<WideEvent>,
   config: RedactionConfig | undefined,
-  schema?: CanonSchema
+  schema?: CanonSchema,
+  onRedacted?: (path: string) => void
 ): Partial<WideEvent> {
   const redacted = snapshot(event);
   
@@ -126,6 +128,7 @@ export function applyRedaction(
       const fieldStrategy = schema?.fields[path]?.redaction ?? globalStrategy;
       const redactedValue = redactValue(value, fieldStrategy);
       result = setPath(result, path, redactedValue);
+      onRedacted?.(path);
     }
   }
   
@@ -0,0 +1,196 @@
+/**
+ * Declarative Sampling Rules
+ * 
+ * Sampling policies expressed as data, so they can live in JSON config:
+ * 
+ *   rules: [
+ *     { match: { route: '/health', method: 'GET' }, rate: 0 },
+ *     { match: { 'user.plan': 'enterprise' }, rate: 1 },
+ *     { when: { duration_ms: { gt: 500 } }, rate: 0.5 },
+ *   ]
+ * 
+ * Rules are evaluated in order; the first matching rule decides the rate.
+ */
+
+import type { SamplingCondition, SamplingMatchValue, SamplingRule, WideEvent } from '../types.js';
+import { getPath } from '../utils/merge.js';
+
+/**
+ * Keys allowed on a rule
+ */
+const RULE_KEYS = new Set(['name', 'match', 'when', 'rate']);
+
+/**
+ * Operators allowed in a `when` condition
+ */
+const NUMERIC_OPERATORS = new Set(['gt', 'gte', 'lt', 'lte']);
+const VALUE_OPERATORS = new Set(['eq', 'ne']);
+
+/**
+ * Find the first rule matching an event
+ * 
+ * @param event - Finalized event
+ * @param rules - Rules in priority order
+ * @returns Matching rule, or undefined
+ */
+export function findSamplingRule(
+  event: Partial<WideEvent>,
+  rules: SamplingRule[]
+): SamplingRule | undefined {
+  return rules.find(rule => ruleMatches(event, rule));
+}
+
+/**
+ * Check a single rule against an event
+ */
+function ruleMatches(event: Partial<WideEvent>, rule: SamplingRule): boolean {
+  const record = event as Record<string, unknown>;
+  
+  for (const [path, expected] of Object.entries(rule.match ?? {})) {
+    if (getPath(record, path) !== expected) {
+      return false;
+    }
+  }
+  
+  for (const [path, condition] of Object.entries(rule.when ?? {})) {
+    if (!conditionHolds(getPath(record, path), condition)) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Check every operator of a condition against a value
+ */
+function conditionHolds(value: unknown, condition: SamplingCondition): boolean {
+  if (condition.eq !== undefined && value !== condition.eq) return false;
+  if (condition.ne !== undefined && value === condition.ne) return false;
+  if (condition.in !== undefined && !condition.in.includes(value as SamplingMatchValue)) return false;
+  
+  const hasNumeric = condition.gt !== undefined || condition.gte !== undefined
+    || condition.lt !== undefined || condition.lte !== undefined;
+  if (!hasNumeric) return true;
+  
+  if (typeof value !== 'number') return false;
+  if (condition.gt !== undefined && !(value > condition.gt)) return false;
+  if (condition.gte !== undefined && !(value >= condition.gte)) return false;
+  if (condition.lt !== undefined && !(value < condition.lt)) return false;
+  if (condition.lte !== undefined && !(value <= condition.lte)) return false;
+  
+  return true;
+}
+
+/**
+ * Validate sampling rules, typically loaded from JSON
+ * 
+ * @param rules - Value of SamplingConfig.rules
+ * @throws Error describing the first invalid rule
+ */
+export function validateSamplingRules(rules: unknown): void {
+  if (rules === undefined) return;
+  
+  if (!Array.isArray(rules)) {
+    throw new Error('[canon] sample.rules must be an array');
+  }
+  
+  rules.forEach((rule: unknown, index) => {
+    const problem = describeRuleProblem(rule);
+    if (problem) {
+      const name = isRecord(rule) && typeof rule.name === 'string' ? ` (${rule.name})` : '';
+      throw new Error(`[canon] Invalid sampling rule #${index}${name}: ${problem}`);
+    }
+  });
+}
+
+/**
+ * Describe what is wrong with a rule, or return undefined if it is valid
+ */
+function describeRuleProblem(rule: unknown): string | undefined {
+  if (!isRecord(rule)) {
+    return 'rule must be an object';
+  }
+  
+  for (const key of Object.keys(rule)) {
+    if (!RULE_KEYS.has(key)) {
+      return `unknown key "${key}" (expected name, match, when, rate)`;
+    }
+  }
+  
+  if (rule.name !== undefined && typeof rule.name !== 'string') {
+    return 'name must be a string';
+  }
+  
+  if (typeof rule.rate !== 'number' || Number.isNaN(rule.rate) || rule.rate < 0 || rule.rate > 1) {
+    return 'rate must be a number between 0 and 1';
+  }
+  
+  if (rule.match !== undefined) {
+    if (!isRecord(rule.match)) {
+      return 'match must be an object of field paths to values';
+    }
+    for (const [path, value] of Object.entries(rule.match)) {
+      if (!isMatchValue(value)) {
+        return `match.${path} must be a string, number or boolean`;
+      }
+    }
+  }
+  
+  if (rule.when !== undefined) {
+    if (!isRecord(rule.when)) {
+      return 'when must be an object of field paths to conditions';
+    }
+    for (const [path, condition] of Object.entries(rule.when)) {
+      const problem = describeConditionProblem(condition);
+      if (problem) {
+        return `when.${path}: ${problem}`;
+      }
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Describe what is wrong with a condition, or return undefined if it is valid
+ */
+function describeConditionProblem(condition: unknown): string | undefined {
+  if (!isRecord(condition) || Object.keys(condition).length === 0) {
+    return 'condition must be an object with at least one operator';
+  }
+  
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (NUMERIC_OPERATORS.has(operator)) {
+      if (typeof operand !== 'number' || Number.isNaN(operand)) {
+        return `${operator} must be a number`;
+      }
+    } else if (VALUE_OPERATORS.has(operator)) {
+      if (!isMatchValue(operand)) {
+        return `${operator} must be a string, number or boolean`;
+      }
+    } else if (operator === 'in') {
+      if (!Array.isArray(operand) || !operand.every(isMatchValue)) {
+        return 'in must be an array of strings, numbers or booleans';
+      }
+    } else {
+      return `unknown operator "${operator}" (expected eq, ne, in, gt, gte, lt, lte)`;
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Check for a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check for a scalar rule value
+ */
+function isMatchValue(value: unknown): value is SamplingMatchValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
@@ -8,85 +8,321 @@
  * - Always keep: status_code >= 500
  * - Always keep: status_code === 429 || status_code === 408
  * - Always keep: outcome === 'aborted'
- * - Always keep: duration_ms > slowThresholdMs (default: 2000ms)
+ * - Always keep: slo.breached === true (when CanonConfig.slo is set)
+ * - Always keep: duration_ms > slowThresholdMs (default: 2000ms, per-route overrides)
  * - Otherwise: sample at sampleRateSuccess (default: 5%)
+ * 
+ * With `adaptive`, the success rate is recomputed per key (e.g. route) over a
+ * sliding window so kept events stay near targetPerSecond under any traffic.
+ * 
+ * `rules` run before the defaults (first match wins); see sampling-rules.ts.
+ * 
+ * Every decision carries the rate the event was kept at and why, so emitted
+ * events can be re-weighted (weight = 1 / sample_rate) when aggregating.
+ * 
+ * With `consistentBy`, the rate draw is a hash of the trace/request ID instead of
+ * Math.random(), so every service keeps (or drops) the same traces.
  */
 
-import type { SamplingConfig, WideEvent } from '../types.js';
+import type {
+  AdaptiveSamplingConfig,
+  ConsistentSamplingKey,
+  Sampler,
+  SampleReason,
+  SamplingConfig,
+  SamplingDecision,
+  WideEvent,
+} from '../types.js';
+import type { SamplingRule } from '../types.js';
 import { DEFAULTS } from '../types.js';
+import { findSamplingRule } from './sampling-rules.js';
+import { isSloBreached } from './slo.js';
+import { getPath } from '../utils/merge.js';
+import { findRouteThreshold } from '../utils/route-match.js';
 
 /**
- * Status codes that are always sampled
+ * Status codes that are always sampled, with their reason
  */
-const ALWAYS_SAMPLE_STATUS_CODES = new Set([
-  408, // Request Timeout
-  429, // Too Many Requests
+const ALWAYS_SAMPLE_STATUS_CODES = new Map<number, SampleReason>([
+  [408, 'status_408'], // Request Timeout
+  [429, 'status_429'], // Too Many Requests
 ]);
 
 /**
- * Check if an event should be sampled using default rules
+ * Decision for events kept by an always-sample rule
+ */
+function keep(reason: SampleReason): SamplingDecision {
+  return { sampled: true, rate: 1, reason };
+}
+
+/**
+ * Decide whether an event should be sampled using default rules
  * 
  * @param event - Finalized event to evaluate
  * @param config - Sampling configuration
- * @returns true if the event should be emitted
+ * @returns Sampling decision
  */
-function shouldSampleDefault(
+function sampleDefault(
   event: Partial<WideEvent>,
   config: SamplingConfig
-): boolean {
+): SamplingDecision {
   const statusCode = event.status_code ?? 0;
   const durationMs = event.duration_ms ?? 0;
   const outcome = event.outcome;
   
   if (statusCode >= 500) {
-    return true;
+    return keep('error');
   }
   
-  if (ALWAYS_SAMPLE_STATUS_CODES.has(statusCode)) {
-    return true;
+  const statusReason = ALWAYS_SAMPLE_STATUS_CODES.get(statusCode);
+  if (statusReason) {
+    return keep(statusReason);
   }
   
   if (outcome === 'aborted') {
-    return true;
+    return keep('aborted');
   }
   
   if (outcome === 'error') {
-    return true;
+    return keep('error');
+  }
+  
+  if (isSloBreached(event)) {
+    return keep('slo_breach');
   }
   
-  const slowThreshold = config.slowThresholdMs ?? DEFAULTS.slowThresholdMs;
+  const slowThreshold = findRouteThreshold(event, config.routeSlowThresholds)?.thresholdMs
+    ?? config.slowThresholdMs
+    ?? DEFAULTS.slowThresholdMs;
   if (durationMs > slowThreshold) {
-    return true;
+    return keep('slow');
+  }
+  
+  if (config.adaptive) {
+    const adaptiveRate = getAdaptiveRate(event, config.adaptive);
+    return {
+      sampled: getSampleDraw(event, config.consistentBy) < adaptiveRate,
+      rate: adaptiveRate,
+      reason: 'adaptive',
+    };
   }
   
   const sampleRate = config.sampleRateSuccess ?? DEFAULTS.sampleRateSuccess;
-  return Math.random() < sampleRate;
+  return {
+    sampled: getSampleDraw(event, config.consistentBy) < sampleRate,
+    rate: sampleRate,
+    reason: 'random',
+  };
+}
+
+/**
+ * Per-key event counts for the current and previous window
+ */
+interface KeyWindow {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Budget key used once maxKeys distinct keys are tracked
+ */
+const OVERFLOW_KEY = '__other__';
+
+/**
+ * Adaptive sampler state, one per adaptive config object
+ */
+const adaptiveState = new WeakMap<AdaptiveSamplingConfig, Map<string, KeyWindow>>();
+
+/**
+ * Count an event against its key and compute the key's current rate
+ * 
+ * The arrival count over the last window is estimated from the current window
+ * plus the overlapping part of the previous one (sliding window), and the rate
+ * is the share of those events the budget allows.
+ */
+function getAdaptiveRate(event: Partial<WideEvent>, adaptive: AdaptiveSamplingConfig): number {
+  const windowMs = adaptive.windowMs ?? DEFAULTS.adaptiveWindowMs;
+  const maxKeys = adaptive.maxKeys ?? DEFAULTS.adaptiveMaxKeys;
+  const now = Date.now();
+  
+  let windows = adaptiveState.get(adaptive);
+  if (!windows) {
+    windows = new Map();
+    adaptiveState.set(adaptive, windows);
+  }
+  
+  let key = getAdaptiveKey(event, adaptive);
+  if (!windows.has(key) && windows.size >= maxKeys) {
+    key = OVERFLOW_KEY;
+  }
+  
+  let window = windows.get(key);
+  if (!window) {
+    window = { windowStart: now, current: 0, previous: 0 };
+    windows.set(key, window);
+  }
+  
+  const windowsPassed = Math.floor((now - window.windowStart) / windowMs);
+  if (windowsPassed > 0) {
+    window.previous = windowsPassed === 1 ? window.current : 0;
+    window.current = 0;
+    window.windowStart += windowsPassed * windowMs;
+  }
+  
+  window.current++;
+  
+  const previousWeight = 1 - (now - window.windowStart) / windowMs;
+  const estimated = window.current + window.previous * previousWeight;
+  const budget = adaptive.targetPerSecond * (windowMs / 1000);
+  
+  return Math.min(1, budget / estimated);
+}
+
+/**
+ * Resolve the adaptive budget key for an event
+ */
+function getAdaptiveKey(event: Partial<WideEvent>, adaptive: AdaptiveSamplingConfig): string {
+  let key: unknown;
+  
+  if (typeof adaptive.key === 'function') {
+    key = adaptive.key(event as WideEvent);
+  } else if (adaptive.key) {
+    key = getPath(event as Record<string, unknown>, adaptive.key);
+  } else {
+    key = event.route ?? event.path;
+  }
+  
+  return key === undefined || key === null ? OVERFLOW_KEY : String(key);
+}
+
+/**
+ * Validate adaptive sampling options, typically loaded from JSON
+ * 
+ * @param adaptive - Value of SamplingConfig.adaptive
+ * @throws Error describing the first problem found
+ */
+export function validateAdaptiveSampling(adaptive: unknown): void {
+  if (adaptive === undefined) return;
+  
+  if (adaptive === null || typeof adaptive !== 'object') {
+    throw new Error('[canon] sample.adaptive must be an object');
+  }
+  
+  const { targetPerSecond, windowMs, maxKeys, key } = adaptive as Record<string, unknown>;
+  
+  if (typeof targetPerSecond !== 'number' || !(targetPerSecond > 0)) {
+    throw new Error('[canon] sample.adaptive.targetPerSecond must be a positive number');
+  }
+  if (windowMs !== undefined && (typeof windowMs !== 'number' || !(windowMs > 0))) {
+    throw new Error('[canon] sample.adaptive.windowMs must be a positive number');
+  }
+  if (maxKeys !== undefined && (!Number.isInteger(maxKeys) || (maxKeys as number) < 1)) {
+    throw new Error('[canon] sample.adaptive.maxKeys must be a positive integer');
+  }
+  if (key !== undefined && typeof key !== 'string' && typeof key !== 'function') {
+    throw new Error('[canon] sample.adaptive.key must be a field path or a function');
+  }
+}
+
+/**
+ * Get the [0, 1) value compared against the sample rate
+ * Deterministic when a consistency key is configured and present on the event
+ */
+function getSampleDraw(
+  event: Partial<WideEvent>,
+  consistentBy: ConsistentSamplingKey | undefined
+): number {
+  if (!consistentBy) {
+    return Math.random();
+  }
+  
+  const key = typeof consistentBy === 'function'
+    ? consistentBy(event as WideEvent)
+    : event[consistentBy];
+  
+  if (typeof key !== 'string' || key.length === 0) {
+    return Math.random();
+  }
+  
+  return hashToUnitInterval(key);
+}
+
+/**
+ * Hash a string into [0, 1) using 32-bit FNV-1a
+ * Stable across processes, platforms and Canon versions
+ * 
+ * @param key - Value to hash (e.g. a trace ID)
+ * @returns Number in [0, 1)
+ */
+export function hashToUnitInterval(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
 }
 
 /**
  * Determine if an event should be sampled (emitted)
  * 
  * @param event - Finalized event to evaluate
- * @param config - Sampling configuration or custom function
- * @returns true if the event should be emitted
+ * @param config - Sampling configuration or custom sampler
+ * @returns Sampling decision (sampled, rate, reason)
  */
 export function shouldSample(
   event: Partial<WideEvent>,
-  config: SamplingConfig | ((event: WideEvent) => boolean) | undefined
-): boolean {
+  config: SamplingConfig | Sampler | undefined
+): SamplingDecision {
   if (!config) {
-    return shouldSampleDefault(event, {});
+    return sampleDefault(event, {});
   }
   
   if (typeof config === 'function') {
-    return config(event as WideEvent);
+    return toSamplingDecision(config(event as WideEvent));
   }
   
   if (config.custom) {
-    return config.custom(event as WideEvent);
+    return toSamplingDecision(config.custom(event as WideEvent));
+  }
+  
+  const rule = config.rules ? findSamplingRule(event, config.rules) : undefined;
+  if (rule) {
+    return sampleByRule(event, rule, config);
   }
   
-  return shouldSampleDefault(event, config);
+  return sampleDefault(event, config);
+}
+
+/**
+ * Apply a matched rule's rate
+ */
+function sampleByRule(
+  event: Partial<WideEvent>,
+  rule: SamplingRule,
+  config: SamplingConfig
+): SamplingDecision {
+  const decision: SamplingDecision = {
+    sampled: getSampleDraw(event, config.consistentBy) < rule.rate,
+    rate: rule.rate,
+    reason: 'rule',
+  };
+  if (rule.name) decision.rule = rule.name;
+  return decision;
+}
+
+/**
+ * Normalize a custom sampler result into a decision
+ * Booleans (legacy samplers) carry no rate and are recorded as rate 1, reason 'custom'
+ * 
+ * @param result - Value returned by a custom sampler
+ */
+export function toSamplingDecision(result: boolean | SamplingDecision): SamplingDecision {
+  if (typeof result === 'boolean') {
+    return { sampled: result, rate: 1, reason: 'custom' };
+  }
+  return result;
 }
 
 /**
@@ -98,7 +334,11 @@ export function createSamplingConfig(
   return {
     sampleRateSuccess: config?.sampleRateSuccess ?? DEFAULTS.sampleRateSuccess,
     slowThresholdMs: config?.slowThresholdMs ?? DEFAULTS.slowThresholdMs,
+    routeSlowThresholds: config?.routeSlowThresholds,
     custom: config?.custom,
+    consistentBy: config?.consistentBy,
+    rules: config?.rules,
+    adaptive: config?.adaptive,
   };
 }
 
@@ -112,7 +352,7 @@ export function createSampler(
   customCheck?: (event: WideEvent) => boolean
 ): (event: WideEvent) => boolean {
   return (event: WideEvent) => {
-    if (shouldSampleDefault(event, {})) {
+    if (sampleDefault(event, {}).sampled) {
       return true;
     }
     
@@ -4,17 +4,24 @@
  * Validates Canon events against a defined schema with:
  * - Required field enforcement (supports dot-paths)
  * - Type validation for known fields
- * - Unknown field handling (top-level only for v0)
+ * - Value constraints: enum, min/max, integer, length, pattern, format, nullable
+ * - Nested shapes: array items, object properties, maxItems (arrays past
+ *   it are truncated before emit)
+ * - Unknown field handling, recursive into nested objects with defined children
  * - Built-in base fields for Canon canonical event structure
+ * - Schema modes for HTTP requests and background jobs
  */
 
 import type {
   CanonSchema,
   FieldDefinition,
+  FieldFormat,
   FieldType,
+  SchemaMode,
   ValidationResult,
   WideEvent,
 } from '../types.js';
+import { writeStderr } from '../utils/emit.js';
 import { getPath, hasPath } from '../utils/merge.js';
 
 /**
@@ -31,6 +38,27 @@ const BUILT_IN_REQUIRED = [
   'outcome',
 ];
 
+/**
+ * Built-in required fields for job events (schema mode 'job')
+ * Replaces the HTTP-specific method, path and status_code
+ */
+const BUILT_IN_REQUIRED_JOB = [
+  'timestamp',
+  'request_id',
+  'service',
+  'job.name',
+  'job.attempt',
+  'duration_ms',
+  'outcome',
+];
+
+/**
+ * Get the built-in required fields for a schema mode
+ */
+export function getBuiltInRequired(mode: SchemaMode | undefined): string[] {
+  return mode === 'job' ? BUILT_IN_REQUIRED_JOB : BUILT_IN_REQUIRED;
+}
+
 /**
  * Canon's built-in base fields for canonical event structure.
  * These are automatically recognized as known fields so they don't
@@ -38,34 +66,49 @@ const BUILT_IN_REQUIRED = [
  * own business-specific fields.
  */
 export const CANON_BASE_FIELDS: Record<string, FieldDefinition> = {
-  'timestamp': { type: 'string' },
-  'request_id': { type: 'string' },
-  'trace_id': { type: 'string' },
-  'service': { type: 'string' },
+  'timestamp': { type: 'string', format: 'iso-datetime' },
+  'request_id': { type: 'string', cardinality: 'high' },
+  'trace_id': { type: 'string', cardinality: 'high' },
+  'span_id': { type: 'string', cardinality: 'high' },
+  'parent_span_id': { type: 'string', cardinality: 'high' },
+  'service': { type: 'string', cardinality: 'low' },
   'version': { type: 'string' },
   'deployment_id': { type: 'string' },
   'region': { type: 'string' },
-  'method': { type: 'string' },
-  'path': { type: 'string' },
-  'route': { type: 'string' },
-  'status_code': { type: 'number' },
-  'duration_ms': { type: 'number' },
-  'outcome': { type: 'string' },
-  'ip': { type: 'string', pii: true },
-  'user_agent': { type: 'string' },
-  'error': { type: 'object' },
+  'method': { type: 'string', cardinality: 'low' },
+  'path': { type: 'string', cardinality: 'high' },
+  'route': { type: 'string', cardinality: 'low' },
+  'status_code': { type: 'number', cardinality: 'low', integer: true, min: 100, max: 599 },
+  'duration_ms': { type: 'number', min: 0 },
+  'outcome': { type: 'string', cardinality: 'low', enum: ['success', 'error', 'aborted'] },
+  'ip': { type: 'string', pii: true, cardinality: 'high' },
+  'user_agent': { type: 'string', cardinality: 'high' },
+  'error': { type: 'object', additionalProperties: true },
+  'sample_rate': { type: 'number', min: 0, max: 1 },
+  'sample_reason': { type: 'string' },
+  'sample_rule': { type: 'string' },
+  'slo.latency_target_ms': { type: 'number', min: 0 },
+  'slo.breached': { type: 'boolean' },
+  'job.name': { type: 'string', cardinality: 'low' },
+  'job.attempt': { type: 'number', integer: true, min: 1 },
 };
 
 /**
  * Create a Canon schema definition
  * Merges user-provided fields over the built-in base fields.
  * Users only need to define their business-specific fields.
+ * Literal field paths and types are kept for CanonContext<typeof schema>.
  */
-export function defineCanonSchema(schema: Partial<CanonSchema>): CanonSchema {
+export function defineCanonSchema<const F extends Record<string, FieldDefinition> = {}>(
+  schema: Partial<Omit<CanonSchema, 'fields'>> & { fields?: F }
+): CanonSchema<Record<string, FieldDefinition> & F> {
+  validateFieldDefinitions(schema.fields ?? {});
+  
   return {
     required: schema.required ?? [],
-    fields: { ...CANON_BASE_FIELDS, ...(schema.fields ?? {}) },
+    fields: { ...CANON_BASE_FIELDS, ...schema.fields } as Record<string, FieldDefinition> & F,
     unknownMode: schema.unknownMode ?? 'allow',
+    mode: schema.mode,
   };
 }
 
@@ -92,30 +135,315 @@ function matchesType(value: unknown, expectedType: FieldType): boolean {
 }
 
 /**
- * Get all top-level keys from an object
+ * Checks for FieldDefinition.format
+ */
+const FORMAT_CHECKS: Record<FieldFormat, (value: string) => boolean> = {
+  'uuid': (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'email': (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'iso-datetime': (value) =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value)
+    && !Number.isNaN(Date.parse(value)),
+  'url': (value) => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * Compiled field patterns, shared across schemas
+ * Null marks a string pattern that does not compile
+ */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Stateless copies of RegExp patterns with the g or y flag
+ */
+const statelessPatterns = new WeakMap<RegExp, RegExp>();
+
+/**
+ * Compile (and cache) a field pattern
+ * RegExps with the g or y flag are copied without them, since test() on
+ * such a RegExp advances lastIndex and alternates between pass and fail
+ * 
+ * @returns RegExp, or undefined for a string pattern that does not compile
  */
-function getTopLevelKeys(obj: Record<string, unknown>): string[] {
-  return Object.keys(obj);
+function toRegExp(pattern: string | RegExp): RegExp | undefined {
+  if (pattern instanceof RegExp) {
+    if (!pattern.global && !pattern.sticky) {
+      return pattern;
+    }
+    let stateless = statelessPatterns.get(pattern);
+    if (!stateless) {
+      stateless = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+      statelessPatterns.set(pattern, stateless);
+    }
+    return stateless;
+  }
+  
+  let compiled = compiledPatterns.get(pattern);
+  if (compiled === undefined) {
+    try {
+      compiled = new RegExp(pattern);
+    } catch {
+      compiled = null;
+    }
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled ?? undefined;
 }
 
 /**
- * Get all known top-level keys from schema fields
- * Extracts the first segment of each dot-path
+ * Check a field value against its definition
+ * Array items and object properties are checked recursively (cart.items[3].price)
+ * 
+ * @returns Messages for each violation (empty when valid)
  */
-function getKnownTopLevelKeys(schema: CanonSchema): Set<string> {
-  const known = new Set<string>();
+function checkField(path: string, value: unknown, definition: FieldDefinition): string[] {
+  if (value === null) {
+    return definition.nullable === false ? [`Field "${path}" must not be null`] : [];
+  }
+  
+  if (!matchesType(value, definition.type)) {
+    return [`Field "${path}" has invalid type: expected ${definition.type}, got ${typeof value}`];
+  }
+  
+  const problems: string[] = [];
+  
+  if (definition.enum && !definition.enum.includes(value as string | number | boolean)) {
+    const allowed = definition.enum.map(v => JSON.stringify(v)).join(', ');
+    problems.push(`Field "${path}" must be one of ${allowed}, got ${JSON.stringify(value)}`);
+  }
+  
+  if (typeof value === 'number') {
+    if (definition.integer && !Number.isInteger(value)) {
+      problems.push(`Field "${path}" must be an integer, got ${value}`);
+    }
+    if (definition.min !== undefined && value < definition.min) {
+      problems.push(`Field "${path}" must be >= ${definition.min}, got ${value}`);
+    }
+    if (definition.max !== undefined && value > definition.max) {
+      problems.push(`Field "${path}" must be <= ${definition.max}, got ${value}`);
+    }
+  }
+  
+  if (typeof value === 'string') {
+    if (definition.minLength !== undefined && value.length < definition.minLength) {
+      problems.push(`Field "${path}" must be at least ${definition.minLength} characters, got ${value.length}`);
+    }
+    if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+      problems.push(`Field "${path}" must be at most ${definition.maxLength} characters, got ${value.length}`);
+    }
+    if (definition.pattern !== undefined) {
+      const pattern = toRegExp(definition.pattern);
+      if (!pattern) {
+        problems.push(`Field "${path}" has invalid pattern "${definition.pattern}"`);
+      } else if (!pattern.test(value)) {
+        problems.push(`Field "${path}" does not match pattern ${pattern}`);
+      }
+    }
+    if (definition.format && !FORMAT_CHECKS[definition.format](value)) {
+      problems.push(`Field "${path}" is not a valid ${definition.format}`);
+    }
+  }
+  
+  if (Array.isArray(value)) {
+    const limit = definition.maxItems ?? value.length;
+    if (value.length > limit) {
+      problems.push(`Field "${path}" must have at most ${limit} items, got ${value.length}`);
+    }
+    if (definition.items) {
+      const items = definition.items;
+      value.slice(0, limit).forEach((item, index) => {
+        problems.push(...checkField(`${path}[${index}]`, item, items));
+      });
+    }
+  } else if (definition.properties && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const [key, property] of Object.entries(definition.properties)) {
+      if (key in object) {
+        problems.push(...checkField(`${path}.${key}`, object[key], property));
+      }
+    }
+  }
+  
+  return problems;
+}
+
+/**
+ * Validate field definitions when a schema is defined
+ * Catches mistakes (bad patterns, unknown formats, inverted ranges) before any event is validated
+ * 
+ * @throws Error naming the first invalid definition
+ */
+function validateFieldDefinitions(fields: Record<string, FieldDefinition>): void {
+  for (const [path, definition] of Object.entries(fields)) {
+    validateFieldDefinition(path, definition);
+  }
+}
+
+/**
+ * Validate one field definition, including nested items and properties
+ */
+function validateFieldDefinition(path: string, definition: FieldDefinition): void {
+  const fail = (reason: string): never => {
+    throw new Error(`[canon] Invalid field definition "${path}": ${reason}`);
+  };
+  
+  if (definition.format !== undefined && !(definition.format in FORMAT_CHECKS)) {
+    fail(`unknown format "${definition.format}"`);
+  }
+  if (typeof definition.pattern === 'string' && !toRegExp(definition.pattern)) {
+    fail(`invalid pattern "${definition.pattern}"`);
+  }
+  if (definition.pattern instanceof RegExp && (definition.pattern.global || definition.pattern.sticky)) {
+    fail(`pattern ${definition.pattern} must not use the g or y flag`);
+  }
+  if (definition.min !== undefined && definition.max !== undefined && definition.min > definition.max) {
+    fail('min is greater than max');
+  }
+  if (
+    definition.minLength !== undefined
+    && definition.maxLength !== undefined
+    && definition.minLength > definition.maxLength
+  ) {
+    fail('minLength is greater than maxLength');
+  }
+  if (definition.enum !== undefined && !Array.isArray(definition.enum)) {
+    fail('enum must be an array');
+  }
+  if (definition.maxItems !== undefined && (!Number.isInteger(definition.maxItems) || definition.maxItems < 0)) {
+    fail('maxItems must be a non-negative integer');
+  }
+  if (definition.items !== undefined) {
+    if (definition.type !== 'array') fail('items requires type "array"');
+    validateFieldDefinition(`${path}[]`, definition.items);
+  }
+  if (definition.properties !== undefined) {
+    if (definition.type !== 'object') fail('properties requires type "object"');
+    for (const [key, property] of Object.entries(definition.properties)) {
+      validateFieldDefinition(`${path}.${key}`, property);
+    }
+  }
+}
+
+/**
+ * Node in the tree of known field paths
+ * Only nodes with children are checked for unknown keys, unless open
+ */
+interface KnownFieldNode {
+  children: Map<string, KnownFieldNode>;
+  open: boolean;
+}
+
+/**
+ * Wildcard path segment: matches any object key or array index
+ */
+const WILDCARD = '*';
+
+/**
+ * Known-field trees, built once per schema
+ */
+const knownFieldTrees = new WeakMap<CanonSchema, KnownFieldNode>();
+
+/**
+ * Build the tree of known paths from required fields, field definitions and built-ins
+ * Nested items/properties definitions extend the tree; a field with
+ * additionalProperties: true accepts keys not defined below it
+ */
+function getKnownFieldTree(schema: CanonSchema): KnownFieldNode {
+  const cached = knownFieldTrees.get(schema);
+  if (cached) {
+    return cached;
+  }
+  
+  const root: KnownFieldNode = { children: new Map(), open: false };
+  
+  const addChild = (node: KnownFieldNode, segment: string): KnownFieldNode => {
+    let child = node.children.get(segment);
+    if (!child) {
+      child = { children: new Map(), open: false };
+      node.children.set(segment, child);
+    }
+    return child;
+  };
+  
+  const addPath = (path: string): KnownFieldNode =>
+    path.split('.').reduce(addChild, root);
+  
+  const addDefinition = (node: KnownFieldNode, definition: FieldDefinition): void => {
+    if (definition.additionalProperties) {
+      node.open = true;
+    }
+    if (definition.items) {
+      addDefinition(addChild(node, WILDCARD), definition.items);
+    }
+    for (const [key, property] of Object.entries(definition.properties ?? {})) {
+      addDefinition(addChild(node, key), property);
+    }
+  };
   
   for (const path of schema.required) {
-    known.add(path.split('.')[0]);
+    addPath(path);
   }
   
-  for (const path of Object.keys(schema.fields)) {
-    known.add(path.split('.')[0]);
+  for (const [path, definition] of Object.entries(schema.fields)) {
+    addDefinition(addPath(path), definition);
   }
   
-  BUILT_IN_REQUIRED.forEach(field => known.add(field));
+  getBuiltInRequired(schema.mode).forEach(addPath);
+  
+  knownFieldTrees.set(schema, root);
+  return root;
+}
+
+/**
+ * Collect paths of keys not present in the known-field tree
+ * Values below leaf or open nodes are not inspected
+ */
+function findUnknownFields(
+  value: Record<string, unknown> | unknown[],
+  node: KnownFieldNode,
+  parentPath: string,
+  unknown: string[]
+): void {
+  const wildcard = node.children.get(WILDCARD);
+  
+  if (Array.isArray(value)) {
+    if (!wildcard) return;
+    value.forEach((item, index) => {
+      checkChild(item, wildcard, `${parentPath}[${index}]`, unknown);
+    });
+    return;
+  }
   
-  return known;
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = parentPath ? `${parentPath}.${key}` : key;
+    const childNode = node.children.get(key) ?? wildcard;
+    
+    if (childNode) {
+      checkChild(child, childNode, childPath, unknown);
+    } else if (!node.open) {
+      unknown.push(childPath);
+    }
+  }
+}
+
+/**
+ * Descend into a value when its node defines children
+ */
+function checkChild(
+  value: unknown,
+  node: KnownFieldNode,
+  path: string,
+  unknown: string[]
+): void {
+  if (node.children.size > 0 && value !== null && typeof value === 'object') {
+    findUnknownFields(value as Record<string, unknown>, node, path, unknown);
+  }
 }
 
 /**
@@ -134,7 +462,7 @@ export function validateSchema(
   const errors: string[] = [];
   const warnings: string[] = [];
   
-  for (const field of BUILT_IN_REQUIRED) {
+  for (const field of getBuiltInRequired(schema?.mode)) {
     if (!hasPath(event as Record<string, unknown>, field)) {
       errors.push(`Missing required built-in field: ${field}`);
     }
@@ -153,8 +481,7 @@ export function validateSchema(
   for (const [path, definition] of Object.entries(schema.fields)) {
     if (hasPath(event as Record<string, unknown>, path)) {
       const value = getPath(event as Record<string, unknown>, path);
-      if (!matchesType(value, definition.type)) {
-        const msg = `Field "${path}" has invalid type: expected ${definition.type}, got ${typeof value}`;
+      for (const msg of checkField(path, value, definition)) {
         if (strict) {
           errors.push(msg);
         } else {
@@ -166,17 +493,18 @@ export function validateSchema(
   
   const unknownMode = schema.unknownMode ?? 'allow';
   if (unknownMode !== 'allow') {
-    const knownKeys = getKnownTopLevelKeys(schema);
-    const actualKeys = getTopLevelKeys(event as Record<string, unknown>);
+    const unknownFields: string[] = [];
+    findUnknownFields(event as Record<string, unknown>, getKnownFieldTree(schema), '', unknownFields);
     
-    for (const key of actualKeys) {
-      if (!knownKeys.has(key)) {
-        const msg = `Unknown top-level field: ${key}`;
-        if (unknownMode === 'deny' && strict) {
-          errors.push(msg);
-        } else {
-          warnings.push(msg);
-        }
+    for (const path of unknownFields) {
+      const isTopLevel = !path.includes('.') && !path.includes('[');
+      const msg = isTopLevel
+        ? `Unknown top-level field: ${path}`
+        : `Unknown field: ${path}`;
+      if (unknownMode === 'deny' && strict) {
+        errors.push(msg);
+      } else {
+        warnings.push(msg);
       }
     }
   }
@@ -188,6 +516,51 @@ export function validateSchema(
   };
 }
 
+/**
+ * Truncate arrays longer than their field's maxItems (in place)
+ * Runs before validation, so emitted events never carry oversized arrays
+ * 
+ * @param event - Finalized event snapshot
+ * @param schema - Schema with the field definitions
+ * @returns Paths of the truncated arrays (e.g. cart.items, orders[2].lines)
+ */
+export function applyMaxItems(event: Partial<WideEvent>, schema: CanonSchema | undefined): string[] {
+  const truncated: string[] = [];
+  if (!schema) {
+    return truncated;
+  }
+  
+  for (const [path, definition] of Object.entries(schema.fields)) {
+    if (hasPath(event as Record<string, unknown>, path)) {
+      truncateField(path, getPath(event as Record<string, unknown>, path), definition, truncated);
+    }
+  }
+  return truncated;
+}
+
+/**
+ * Truncate one field value, recursing into items and properties
+ */
+function truncateField(path: string, value: unknown, definition: FieldDefinition, truncated: string[]): void {
+  if (Array.isArray(value)) {
+    if (definition.maxItems !== undefined && value.length > definition.maxItems) {
+      value.length = definition.maxItems;
+      truncated.push(path);
+    }
+    if (definition.items) {
+      const items = definition.items;
+      value.forEach((item, index) => truncateField(`${path}[${index}]`, item, items, truncated));
+    }
+  } else if (definition.properties && value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const [key, property] of Object.entries(definition.properties)) {
+      if (key in object) {
+        truncateField(`${path}.${key}`, object[key], property, truncated);
+      }
+    }
+  }
+}
+
 /**
  * Log validation warnings to stderr
  */
@@ -196,7 +569,7 @@ export function logValidationWarnings(
   requestId: string
 ): void {
   for (const warning of warnings) {
-    process.stderr.write(
+    writeStderr(
       `[canon] validation warning (${requestId}): ${warning}\n`
     );
   }
@@ -210,7 +583,7 @@ export function logValidationErrors(
   requestId: string
 ): void {
   for (const error of errors) {
-    process.stderr.write(
+    writeStderr(
       `[canon] validation error (${requestId}): ${error}\n`
     );
   }
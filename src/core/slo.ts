@@ -0,0 +1,62 @@
+/**
+ * Latency SLO Tagging
+ * 
+ * Stamps every finalized event with its latency target and whether it was missed:
+ * 
+ *   slo: { latency_target_ms: 200, breached: true }
+ * 
+ * Breaches are always kept by the default sampler, so the events that burn
+ * error budget are never sampled out.
+ */
+
+import type { SloConfig, WideEvent } from '../types.js';
+import { findRouteThreshold, validateRouteThresholds } from '../utils/route-match.js';
+
+/**
+ * Stamp SLO fields onto a finalized event (in place)
+ * Existing fields under `slo` are preserved
+ * 
+ * @param event - Finalized event snapshot
+ * @param slo - SLO configuration
+ */
+export function applySlo(event: Partial<WideEvent>, slo: SloConfig | undefined): void {
+  if (!slo) return;
+  
+  const target = findRouteThreshold(event, slo.routes)?.thresholdMs ?? slo.latencyTargetMs;
+  const existing = event.slo !== null && typeof event.slo === 'object' ? event.slo : {};
+  
+  event.slo = {
+    ...existing,
+    latency_target_ms: target,
+    breached: (event.duration_ms ?? 0) > target,
+  };
+}
+
+/**
+ * Check whether an event was stamped as breaching its SLO
+ */
+export function isSloBreached(event: Partial<WideEvent>): boolean {
+  return (event.slo as { breached?: unknown } | undefined)?.breached === true;
+}
+
+/**
+ * Validate SLO configuration, typically loaded from JSON
+ * 
+ * @param slo - Value of CanonConfig.slo
+ * @throws Error describing the first problem found
+ */
+export function validateSlo(slo: unknown): void {
+  if (slo === undefined) return;
+  
+  if (slo === null || typeof slo !== 'object') {
+    throw new Error('[canon] slo must be an object');
+  }
+  
+  const { latencyTargetMs, routes } = slo as Record<string, unknown>;
+  
+  if (typeof latencyTargetMs !== 'number' || !(latencyTargetMs >= 0)) {
+    throw new Error('[canon] slo.latencyTargetMs must be a non-negative number');
+  }
+  
+  validateRouteThresholds(routes, 'slo.routes');
+}
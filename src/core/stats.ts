@@ -0,0 +1,96 @@
+/**
+ * Pipeline Stats
+ * 
+ * Self-observability for Canon: process-wide counts of what happened to
+ * each finalized event, so silent data loss (strict-mode drops, throwing
+ * emitters) can be alerted on:
+ * 
+ *   const { validationDropped, emitterThrew } = getCanonStats();
+ * 
+ * Every count is also delivered to CanonConfig.onInternalEvent.
+ */
+
+import type { CanonConfig, InternalEvent, InternalEventType } from '../types.js';
+import { writeStderr } from '../utils/emit.js';
+
+/**
+ * Process-wide pipeline counters
+ */
+export interface CanonStats {
+  emitted: number;
+  sampledOut: number;
+  validationDropped: number;
+  redactionApplied: number;
+  arrayTruncated: number;
+  emitterThrew: number;
+  circuitOpen: number;
+  lateMutation: number;
+}
+
+/**
+ * Counter incremented for each internal event type
+ */
+const STAT_KEYS: Record<InternalEventType, keyof CanonStats> = {
+  emitted: 'emitted',
+  sampled_out: 'sampledOut',
+  validation_dropped: 'validationDropped',
+  redaction_applied: 'redactionApplied',
+  array_truncated: 'arrayTruncated',
+  emitter_threw: 'emitterThrew',
+  circuit_open: 'circuitOpen',
+  late_mutation: 'lateMutation',
+};
+
+let stats: CanonStats = createEmptyStats();
+
+/**
+ * Get a copy of the process-wide pipeline counters
+ */
+export function getCanonStats(): CanonStats {
+  return { ...stats };
+}
+
+/**
+ * Reset all pipeline counters to zero
+ */
+export function resetCanonStats(): void {
+  stats = createEmptyStats();
+}
+
+/**
+ * Count an internal event and deliver it to config.onInternalEvent
+ * Errors thrown by the hook are written to stderr and never reach requests
+ * 
+ * @param config - Canon configuration of the reporting adapter
+ * @param event - Internal event to record
+ */
+export function reportInternalEvent(config: CanonConfig, event: InternalEvent): void {
+  stats[STAT_KEYS[event.type]]++;
+  
+  if (!config.onInternalEvent) {
+    return;
+  }
+  
+  try {
+    config.onInternalEvent(event);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    writeStderr(`[canon] onInternalEvent threw: ${message}\n`);
+  }
+}
+
+/**
+ * Create a zeroed counter set
+ */
+function createEmptyStats(): CanonStats {
+  return {
+    emitted: 0,
+    sampledOut: 0,
+    validationDropped: 0,
+    redactionApplied: 0,
+    arrayTruncated: 0,
+    emitterThrew: 0,
+    circuitOpen: 0,
+    lateMutation: 0,
+  };
+}
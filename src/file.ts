@@ -0,0 +1,19 @@
+/**
+ * Canon File Emitter - canon/file
+ * 
+ * Kept out of the main entry point because it depends on node:fs and
+ * node:zlib, which are unavailable on edge runtimes.
+ * 
+ * @example
+ * ```typescript
+ * import { createFileEmitter } from 'canon/file';
+ * 
+ * app.use(canonExpress({
+ *   service: 'my-service',
+ *   emit: createFileEmitter({ dir: '/var/log/canon' }),
+ * }));
+ * ```
+ */
+
+export { createFileEmitter, FILE_EMITTER_DEFAULTS } from './utils/emit-file.js';
+export type { FileEmitterOptions } from './utils/emit-file.js';
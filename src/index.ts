@@ -30,18 +30,39 @@
  */
 
 export type {
+  AdaptiveSamplingConfig,
   CanonConfig,
   CanonContext,
   CanonError,
   CanonSchema,
+  CanonSink,
+  ConsistentSamplingKey,
   EmitFunction,
+  EmitGuardConfig,
   FieldDefinition,
+  FieldFormat,
   FieldType,
+  FieldValue,
   InternalCanonContext,
+  InternalEvent,
+  InternalEventType,
+  MetricsObserver,
   RedactionConfig,
   RedactionStrategy,
   RequestOutcome,
+  RouteLatencyThreshold,
+  Sampler,
+  SampleReason,
+  SamplingCondition,
   SamplingConfig,
+  SamplingDecision,
+  SamplingMatchValue,
+  SamplingRule,
+  SchemaMode,
+  SchemaPath,
+  SchemaValue,
+  SloConfig,
+  TraceContextMode,
   UnknownFieldMode,
   ValidationResult,
   WideEvent,
@@ -51,7 +72,29 @@ export { DEFAULTS } from './types.js';
 
 export { canonExpress, canonExpressError } from './middleware/express.js';
 
-export { defineCanonSchema, validateSchema, CANON_BASE_FIELDS } from './core/schema.js';
+export { canonHttp } from './middleware/http.js';
+export type { CanonHttpHandler, CanonIncomingMessage } from './middleware/http.js';
+
+export { canonFastify } from './middleware/fastify.js';
+
+export { canonMetricsHandler } from './middleware/metrics.js';
+
+export { withCanon } from './middleware/next.js';
+export type { CanonRequest, CanonRouteHandler, WithCanonConfig } from './middleware/next.js';
+
+export { defineCanonSchema, validateSchema, applyMaxItems, CANON_BASE_FIELDS } from './core/schema.js';
+export {
+  toJsonSchema,
+  fromJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  CANON_JSON_SCHEMA_KEYWORD,
+} from './core/json-schema.js';
+export type {
+  CanonJsonSchemaKeyword,
+  JsonSchema,
+  JsonSchemaType,
+  ToJsonSchemaOptions,
+} from './core/json-schema.js';
 
 export { applyRedaction, createRedactionConfig } from './core/redact.js';
 
@@ -62,20 +105,76 @@ export {
   alwaysSample,
   neverSample,
   fixedRateSample,
+  hashToUnitInterval,
+  toSamplingDecision,
+  validateAdaptiveSampling,
 } from './core/sampling.js';
+export { validateSamplingRules } from './core/sampling-rules.js';
+export { applySlo, validateSlo } from './core/slo.js';
+
+export {
+  createMetricsAggregator,
+  getDefaultMetricsAggregator,
+  METRICS_DEFAULTS,
+} from './core/metrics.js';
+export type {
+  MetricSeries,
+  MetricsAggregator,
+  MetricsAggregatorOptions,
+  MetricsExporter,
+  MetricsSnapshot,
+  PipelineCounters,
+} from './core/metrics.js';
+export { toPrometheusText, PROMETHEUS_CONTENT_TYPE } from './core/prometheus.js';
 
-export { createCanonContext, extractIds } from './core/canon.js';
+export { getCanonStats, resetCanonStats } from './core/stats.js';
+export { validateEmitGuard } from './core/emit-guard.js';
+export type { CanonStats } from './core/stats.js';
+
+export {
+  createCanonContext,
+  extractIds,
+  resolveTraceContext,
+  validateCanonConfig,
+} from './core/canon.js';
+export type { ExtractedIds } from './core/canon.js';
+
+export { getCanon, useCanon, runWithCanon } from './core/ambient.js';
+
+export { canonJob } from './core/job.js';
+export type { JobOptions } from './core/job.js';
 
 export { normalizeError } from './core/event.js';
 
 export {
   generateRequestId,
   generateTraceId,
+  generateW3CTraceId,
+  generateSpanId,
   isValidRequestId,
   isValidTraceId,
+  isW3CTraceId,
+  isW3CSpanId,
 } from './utils/ids.js';
 
+export { parseTraceparent, formatTraceparent } from './utils/traceparent.js';
+export type { TraceParent, W3CTraceContext } from './utils/traceparent.js';
+
 export { createConsoleEmitter } from './utils/emit.js';
 
-export { isOTelAvailable, addSpanAttributes } from './core/otel.js';
+export { createDevEmitter, formatDevEvent } from './utils/emit-dev.js';
+export type { DevEmitterOptions, DevFormatOptions, DevOutputStream } from './utils/emit-dev.js';
+
+export { createBufferedEmitter, BUFFERED_EMITTER_DEFAULTS } from './utils/emit-buffered.js';
+export type {
+  BufferedEmitter,
+  BufferedEmitterOptions,
+  BufferedEmitterStats,
+  WritableLike,
+} from './utils/emit-buffered.js';
+
+export { createOtlpLogEmitter, toOtlpLogsPayload } from './utils/emit-otlp.js';
+export type { OtlpLogEmitterOptions, OtlpLogsPayload } from './utils/emit-otlp.js';
+
+export { isOTelAvailable, addSpanAttributes, loadOTel } from './core/otel.js';
 
@@ -12,9 +12,21 @@
  */
 
 import type { Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from 'express';
-import type { CanonConfig, CanonContext, RequestOutcome } from '../types.js';
-import { DEFAULTS } from '../types.js';
-import { createCanonContext, extractIds, createInitialEventData } from '../core/canon.js';
+import type { CanonConfig, CanonContext } from '../types.js';
+import {
+  createCanonContext,
+  extractIds,
+  createInitialEventData,
+  resolveDebug,
+  validateCanonConfig,
+} from '../core/canon.js';
+import { runInCanonScope } from '../core/ambient.js';
+import {
+  bindResponseLifecycle,
+  createIgnorePathMatcher,
+  getClientIp,
+  setResponseHeaders,
+} from '../utils/http.js';
 
 /**
  * Main Canon middleware for Express
@@ -28,27 +40,10 @@ import { createCanonContext, extractIds, createInitialEventData } from '../core/
  * @returns Express middleware function
  */
 export function canonExpress(config: CanonConfig): RequestHandler {
-  const requestIdHeader = config.requestIdHeader ?? DEFAULTS.requestIdHeader;
-  const traceIdHeader = config.traceIdHeader ?? DEFAULTS.traceIdHeader;
-  const debug = config.debug ?? (process.env.NODE_ENV !== 'production');
+  validateCanonConfig(config);
   
-  const defaultIgnorePaths = ['/favicon.ico', '/robots.txt', '/sw.js'];
-  const ignorePaths = config.ignorePaths ?? (debug ? defaultIgnorePaths : undefined);
-  
-  const shouldIgnorePath = (path: string): boolean => {
-    if (!ignorePaths) return false;
-    
-    if (typeof ignorePaths === 'function') {
-      return ignorePaths(path);
-    }
-    
-    return ignorePaths.some(pattern => {
-      if (typeof pattern === 'string') {
-        return path === pattern;
-      }
-      return pattern.test(path);
-    });
-  };
+  const debug = resolveDebug(config);
+  const shouldIgnorePath = createIgnorePathMatcher(config, debug);
   
   return (req: Request, res: Response, next: NextFunction): void => {
     const path = req.path || req.url;
@@ -57,14 +52,11 @@ export function canonExpress(config: CanonConfig): RequestHandler {
       return next();
     }
     
-    const { requestId, traceId } = extractIds(
+    const { requestId, traceId, w3c } = extractIds(
       req.headers as Record<string, string | string[] | undefined>,
       config
     );
     
-    res.setHeader(requestIdHeader, requestId);
-    res.setHeader(traceIdHeader, traceId);
-    
     const ip = getClientIp(req);
     const userAgent = req.headers['user-agent'];
     
@@ -76,44 +68,26 @@ export function canonExpress(config: CanonConfig): RequestHandler {
       undefined
     );
     
-    const { context, emit } = createCanonContext(
+    const { context, emit, responseHeaders } = createCanonContext(
       config,
       requestId,
       traceId,
       initialData,
-      debug
+      debug,
+      w3c
     );
     
-    req.canon = context as CanonContext;
+    setResponseHeaders(res, responseHeaders);
     
-    let finalized = false;
+    req.canon = context as CanonContext;
     
-    const finalizeOnce = (outcome: RequestOutcome, overrideStatusCode?: number): void => {
-      if (finalized) return;
-      finalized = true;
-      
+    bindResponseLifecycle(res, context, emit, () => {
       if (req.route?.path && !context.get().route) {
         context.set('route', req.route.path);
       }
-      
-      const statusCode = overrideStatusCode ?? (res.statusCode || 200);
-      emit(outcome, statusCode);
-    };
-    
-    res.on('finish', () => {
-      const hasError = context.get().error !== undefined;
-      const outcome: RequestOutcome = hasError ? 'error' : 'success';
-      finalizeOnce(outcome);
     });
     
-    res.on('close', () => {
-      if (finalized) return;
-      if (res.writableEnded) return;
-      
-      finalizeOnce('aborted', 499);
-    });
-    
-    next();
+    runInCanonScope(config, context, next);
   };
 }
 
@@ -135,54 +109,5 @@ export function canonExpressError(): ErrorRequestHandler {
   };
 }
 
-/**
- * Extract and normalize client IP from request
- * - Prefers socket.remoteAddress for direct connections
- * - Falls back to proxy headers (x-forwarded-for, x-real-ip)
- * - Normalizes IPv6-mapped IPv4 addresses (strips ::ffff: prefix)
- */
-function getClientIp(req: Request): string | undefined {
-  let ip: string | undefined;
-  
-  ip = req.socket?.remoteAddress;
-  
-  if (!ip) {
-    const xForwardedFor = req.headers['x-forwarded-for'];
-    if (xForwardedFor) {
-      const ips = Array.isArray(xForwardedFor) 
-        ? xForwardedFor[0] 
-        : xForwardedFor.split(',')[0];
-      ip = ips?.trim();
-    }
-  }
-  
-  if (!ip) {
-    const xRealIp = req.headers['x-real-ip'];
-    if (xRealIp) {
-      ip = Array.isArray(xRealIp) ? xRealIp[0] : xRealIp;
-    }
-  }
-  
-  return normalizeIp(ip);
-}
-
-/**
- * Normalize IP address
- * - Strips ::ffff: prefix from IPv6-mapped IPv4 addresses
- * - Preserves ::1 and other valid IPv6 addresses unchanged
- * - Returns undefined for empty/invalid values
- */
-function normalizeIp(ip: string | undefined): string | undefined {
-  if (!ip || ip.length === 0) {
-    return undefined;
-  }
-  
-  if (ip.startsWith('::ffff:')) {
-    return ip.slice(7);
-  }
-  
-  return ip;
-}
-
 export type { CanonConfig, CanonContext };
 
@@ -0,0 +1,130 @@
+/**
+ * Fastify Plugin
+ * 
+ * Drives the Canon lifecycle from Fastify hooks:
+ * - onRequest: attaches request.canon and propagates IDs
+ * - onError: captures errors via markError()
+ * - onResponse: finalizes with the reply status code
+ * - onRequestAbort: finalizes as aborted (499)
+ * 
+ * Usage:
+ *   await fastify.register(canonFastify(config));
+ */
+
+import type { FastifyPluginCallback, FastifyRequest } from 'fastify';
+import type { CanonConfig, CanonContext, RequestOutcome } from '../types.js';
+import {
+  createCanonContext,
+  extractIds,
+  createInitialEventData,
+  resolveDebug,
+  validateCanonConfig,
+} from '../core/canon.js';
+import { runInCanonScope } from '../core/ambient.js';
+import { createIgnorePathMatcher, getClientIp, pathFromUrl } from '../utils/http.js';
+
+/**
+ * Emits the event for an in-flight request exactly once
+ */
+type Finalizer = (outcome: RequestOutcome, statusCode: number) => void;
+
+/**
+ * Marker Fastify reads to register a plugin without encapsulation (as fastify-plugin sets it)
+ */
+const SKIP_OVERRIDE: unique symbol = Symbol.for('skip-override');
+
+/**
+ * Fastify plugin carrying the skip-override marker
+ */
+type UnencapsulatedPlugin = FastifyPluginCallback & { [SKIP_OVERRIDE]: true };
+
+/**
+ * Canon plugin for Fastify
+ * 
+ * Registered without encapsulation so hooks apply to every route.
+ * Fills `route` from Fastify's route template (routeOptions.url).
+ * 
+ * @param config - Canon configuration
+ * @returns Fastify plugin
+ */
+export function canonFastify(config: CanonConfig): FastifyPluginCallback {
+  validateCanonConfig(config);
+  
+  const debug = resolveDebug(config);
+  const shouldIgnorePath = createIgnorePathMatcher(config, debug);
+  
+  const finalizers = new WeakMap<FastifyRequest, Finalizer>();
+  
+  const plugin: FastifyPluginCallback = (fastify, _opts, done) => {
+    fastify.decorateRequest('canon', null);
+    
+    fastify.addHook('onRequest', (request, reply, hookDone) => {
+      const path = pathFromUrl(request.url);
+      
+      if (shouldIgnorePath(path)) {
+        return hookDone();
+      }
+      
+      const { requestId, traceId, w3c } = extractIds(request.headers, config);
+      
+      const initialData = createInitialEventData(
+        request.method,
+        path,
+        getClientIp(request.raw),
+        request.headers['user-agent'],
+        undefined
+      );
+      
+      const { context, emit, responseHeaders } = createCanonContext(
+        config,
+        requestId,
+        traceId,
+        initialData,
+        debug,
+        w3c
+      );
+      
+      reply.headers(responseHeaders);
+      
+      request.canon = context as CanonContext;
+      
+      finalizers.set(request, (outcome, statusCode) => {
+        finalizers.delete(request);
+        
+        const route = request.routeOptions?.url;
+        if (route && !context.get().route) {
+          context.set('route', route);
+        }
+        
+        emit(outcome, statusCode);
+      });
+      
+      runInCanonScope(config, context, hookDone);
+    });
+    
+    fastify.addHook('onError', (request, _reply, error, hookDone) => {
+      request.canon?.markError(error);
+      hookDone();
+    });
+    
+    fastify.addHook('onResponse', (request, reply, hookDone) => {
+      const finalize = finalizers.get(request);
+      if (finalize) {
+        const hasError = request.canon.get().error !== undefined;
+        finalize(hasError ? 'error' : 'success', reply.statusCode || 200);
+      }
+      hookDone();
+    });
+    
+    fastify.addHook('onRequestAbort', (request, hookDone) => {
+      finalizers.get(request)?.('aborted', 499);
+      hookDone();
+    });
+    
+    done();
+  };
+  
+  const unencapsulated: UnencapsulatedPlugin = Object.assign(plugin, { [SKIP_OVERRIDE]: true as const });
+  
+  return unencapsulated;
+}
@@ -0,0 +1,138 @@
+/**
+ * Node.js HTTP Adapter
+ * 
+ * Wraps a plain node:http request listener so it works without Express:
+ *   const server = http.createServer(canonHttp(config)((req, res) => {
+ *     req.canon.set('user.id', 'u_123');
+ *     res.end('ok');
+ *   }));
+ * 
+ * Uses the same finish/close/abort (499) semantics as canonExpress().
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { CanonConfig, CanonContext } from '../types.js';
+import {
+  createCanonContext,
+  extractIds,
+  createInitialEventData,
+  resolveDebug,
+  validateCanonConfig,
+} from '../core/canon.js';
+import { NOOP_CONTEXT, runInCanonScope } from '../core/ambient.js';
+import {
+  bindResponseLifecycle,
+  createIgnorePathMatcher,
+  getClientIp,
+  pathFromUrl,
+  setResponseHeaders,
+} from '../utils/http.js';
+
+/**
+ * Incoming request with the Canon context attached
+ */
+export type CanonIncomingMessage = IncomingMessage & { canon: CanonContext };
+
+/**
+ * Request handler wrapped by canonHttp()
+ * May return a promise; rejections are captured via markError()
+ */
+export type CanonHttpHandler = (
+  req: CanonIncomingMessage,
+  res: ServerResponse
+) => void | Promise<void>;
+
+/**
+ * Canon wrapper for node:http servers
+ * 
+ * Attaches req.canon and finalizes on response finish/close. Requests on
+ * ignored paths get a no-op req.canon and emit nothing.
+ * Errors thrown (or rejected) by the handler are captured via markError()
+ * and answered with a 500 if no response has been sent yet.
+ * 
+ * @param config - Canon configuration
+ * @returns Function that wraps a handler into a node:http request listener
+ */
+export function canonHttp(
+  config: CanonConfig
+): (handler: CanonHttpHandler) => (req: IncomingMessage, res: ServerResponse) => void {
+  validateCanonConfig(config);
+  
+  const debug = resolveDebug(config);
+  const shouldIgnorePath = createIgnorePathMatcher(config, debug);
+  
+  return (handler: CanonHttpHandler) => (req: IncomingMessage, res: ServerResponse): void => {
+    const canonReq = req as CanonIncomingMessage;
+    const path = pathFromUrl(req.url);
+    
+    if (shouldIgnorePath(path)) {
+      canonReq.canon = NOOP_CONTEXT;
+      runHandler(handler, canonReq, res);
+      return;
+    }
+    
+    const { requestId, traceId, w3c } = extractIds(req.headers, config);
+    
+    const initialData = createInitialEventData(
+      req.method ?? 'GET',
+      path,
+      getClientIp(req),
+      req.headers['user-agent'],
+      undefined
+    );
+    
+    const { context, emit, responseHeaders } = createCanonContext(
+      config,
+      requestId,
+      traceId,
+      initialData,
+      debug,
+      w3c
+    );
+    
+    setResponseHeaders(res, responseHeaders);
+    
+    canonReq.canon = context as CanonContext;
+    
+    bindResponseLifecycle(res, context, emit);
+    
+    runInCanonScope(config, context, () => runHandler(handler, canonReq, res));
+  };
+}
+
+/**
+ * Invoke the user handler, capturing sync throws and async rejections
+ */
+function runHandler(
+  handler: CanonHttpHandler,
+  req: CanonIncomingMessage,
+  res: ServerResponse
+): void {
+  try {
+    const result = handler(req, res);
+    if (result && typeof result.then === 'function') {
+      result.then(undefined, (err: unknown) => handleError(err, req, res));
+    }
+  } catch (err) {
+    handleError(err, req, res);
+  }
+}
+
+/**
+ * Record a handler error and respond with 500 when nothing was sent yet
+ */
+function handleError(
+  err: unknown,
+  req: CanonIncomingMessage,
+  res: ServerResponse
+): void {
+  req.canon?.markError(err);
+  
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  
+  res.statusCode = 500;
+  res.end();
+}
@@ -0,0 +1,33 @@
+/**
+ * Metrics Endpoint
+ * 
+ * Serves Canon's pre-sampling metrics in Prometheus text format.
+ * Works as a raw node:http handler and as an Express route:
+ * 
+ *   app.use(canonExpress({ service: 'api', metrics: true }));
+ *   app.get('/metrics', canonMetricsHandler());
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { MetricsAggregator } from '../core/metrics.js';
+import { getDefaultMetricsAggregator } from '../core/metrics.js';
+import { PROMETHEUS_CONTENT_TYPE, toPrometheusText } from '../core/prometheus.js';
+
+/**
+ * Create a request handler that serves metrics for scraping
+ * 
+ * @param aggregator - Aggregator to expose (default: the shared one used by `metrics: true`)
+ * @returns Handler usable with node:http and Express
+ */
+export function canonMetricsHandler(
+  aggregator?: MetricsAggregator
+): (req: IncomingMessage, res: ServerResponse) => void {
+  return (_req: IncomingMessage, res: ServerResponse): void => {
+    const source = aggregator ?? getDefaultMetricsAggregator();
+    const body = toPrometheusText(source.snapshot());
+    
+    res.statusCode = 200;
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.end(body);
+  };
+}
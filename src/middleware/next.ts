@@ -0,0 +1,168 @@
+/**
+ * Next.js Route Handler Wrapper
+ * 
+ * Wraps App Router route handlers built on Web Fetch Request/Response.
+ * Runs on both the Node.js and Edge runtimes:
+ * 
+ *   export const GET = withCanon(async (req) => {
+ *     req.canon.set('user.id', 'u_123');
+ *     return Response.json({ ok: true });
+ *   }, { service: 'web', route: '/api/users' });
+ * 
+ * The event is finalized when the handler resolves, with the response status.
+ * Streaming bodies are not awaited; abort is detected via request.signal.
+ */
+
+import type { CanonConfig, CanonContext, RequestOutcome } from '../types.js';
+import {
+  createCanonContext,
+  extractIds,
+  createInitialEventData,
+  resolveDebug,
+  validateCanonConfig,
+} from '../core/canon.js';
+import { NOOP_CONTEXT, runInCanonScope } from '../core/ambient.js';
+import { createIgnorePathMatcher, getClientIp } from '../utils/http.js';
+
+/**
+ * Configuration for withCanon()
+ * Next.js does not expose the route template on the request, so it can be given here
+ */
+export interface WithCanonConfig extends CanonConfig {
+  route?: string;
+}
+
+/**
+ * Fetch Request with the Canon context attached
+ */
+export type CanonRequest<R extends Request = Request> = R & { canon: CanonContext };
+
+/**
+ * Route handler wrapped by withCanon()
+ */
+export type CanonRouteHandler<R extends Request = Request, C = unknown> = (
+  req: CanonRequest<R>,
+  context: C
+) => Response | Promise<Response>;
+
+/**
+ * Wrap a Next.js route handler with Canon
+ * 
+ * Attaches req.canon, emits one event per request and propagates
+ * request/trace IDs on the response. Errors thrown by the handler are
+ * captured via markError(), emitted as 500 and rethrown for Next.js to handle.
+ * Requests on ignored paths get a no-op req.canon and emit nothing.
+ * 
+ * @param handler - Route handler (GET, POST, ...)
+ * @param config - Canon configuration
+ * @returns Route handler with the same signature
+ */
+export function withCanon<R extends Request = Request, C = unknown>(
+  handler: CanonRouteHandler<R, C>,
+  config: WithCanonConfig
+): (req: R, context: C) => Promise<Response> {
+  validateCanonConfig(config);
+  
+  const debug = resolveDebug(config);
+  const shouldIgnorePath = createIgnorePathMatcher(config, debug);
+  
+  return async (req: R, routeContext: C): Promise<Response> => {
+    const canonReq = req as CanonRequest<R>;
+    const path = new URL(req.url).pathname;
+    
+    if (shouldIgnorePath(path)) {
+      attachCanon(canonReq, NOOP_CONTEXT);
+      return handler(canonReq, routeContext);
+    }
+    
+    const headers = headersToRecord(req.headers);
+    const { requestId, traceId, w3c } = extractIds(headers, config);
+    
+    const initialData = createInitialEventData(
+      req.method,
+      path,
+      getClientIp({ headers }),
+      headers['user-agent'],
+      config.route
+    );
+    
+    const { context, emit, responseHeaders } = createCanonContext(
+      config,
+      requestId,
+      traceId,
+      initialData,
+      debug,
+      w3c
+    );
+    
+    attachCanon(canonReq, context as CanonContext);
+    
+    let finalized = false;
+    
+    const finalizeOnce = (outcome: RequestOutcome, statusCode: number): void => {
+      if (finalized) return;
+      finalized = true;
+      emit(outcome, statusCode);
+    };
+    
+    req.signal?.addEventListener('abort', () => finalizeOnce('aborted', 499), { once: true });
+    
+    let response: Response;
+    try {
+      response = await runInCanonScope(config, context, () => handler(canonReq, routeContext));
+    } catch (err) {
+      context.markError(err);
+      finalizeOnce('error', 500);
+      throw err;
+    }
+    
+    const hasError = context.get().error !== undefined;
+    finalizeOnce(hasError ? 'error' : 'success', response.status);
+    
+    return withResponseHeaders(response, responseHeaders);
+  };
+}
+
+/**
+ * Attach the Canon context to a Request as non-enumerable req.canon
+ */
+function attachCanon(req: CanonRequest, context: CanonContext): void {
+  Object.defineProperty(req, 'canon', {
+    value: context,
+    configurable: true,
+    enumerable: false,
+  });
+}
+
+/**
+ * Convert Fetch Headers into a plain lowercase header record
+ */
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key.toLowerCase()] = value;
+  });
+  return record;
+}
+
+/**
+ * Set headers on a response
+ * Responses with immutable headers (e.g. from fetch or Response.redirect) are copied
+ */
+function withResponseHeaders(
+  response: Response,
+  headers: Record<string, string>
+): Response {
+  try {
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    for (const [name, value] of Object.entries(headers)) {
+      copy.headers.set(name, value);
+    }
+    return copy;
+  }
+}
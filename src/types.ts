@@ -31,6 +31,25 @@ export type RedactionStrategy = 'mask' | 'hash' | 'drop';
  */
 export type UnknownFieldMode = 'allow' | 'warn' | 'deny';
 
+/**
+ * Kind of unit of work a schema describes
+ * - http: requests (requires method, path, status_code)
+ * - job: background jobs and queue consumers (requires job.name, job.attempt)
+ */
+export type SchemaMode = 'http' | 'job';
+
+/**
+ * Trace ID format used when a request does not carry a traceparent header
+ * - canon: trace_ + base32 (legacy, x-trace-id only)
+ * - w3c: 32 hex chars with span IDs and traceparent propagation
+ */
+export type TraceContextMode = 'canon' | 'w3c';
+
+/**
+ * String formats checked by FieldDefinition.format
+ */
+export type FieldFormat = 'uuid' | 'email' | 'iso-datetime' | 'url';
+
 /**
  * Definition for a single field in the schema
  */
@@ -39,17 +58,121 @@ export interface FieldDefinition {
   pii?: boolean;
   redaction?: RedactionStrategy;
   cardinality?: 'low' | 'high';
+  
+  /**
+   * Allowed values
+   */
+  enum?: ReadonlyArray<string | number | boolean>;
+  
+  /**
+   * Inclusive bounds for numbers
+   */
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  
+  /**
+   * Length bounds and shape for strings
+   */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string | RegExp;
+  format?: FieldFormat;
+  
+  /**
+   * Whether null is accepted (default: true)
+   */
+  nullable?: boolean;
+  
+  /**
+   * Definition for every element of an array field
+   */
+  items?: FieldDefinition;
+  
+  /**
+   * Upper bound on array length
+   */
+  maxItems?: number;
+  
+  /**
+   * Definitions for keys of an object field
+   */
+  properties?: Record<string, FieldDefinition>;
+  
+  /**
+   * Accept keys not defined below this path (unknownMode checks stop here)
+   */
+  additionalProperties?: boolean;
 }
 
 /**
  * Schema definition for Canon events
+ * F carries the literal field definitions of schemas built with defineCanonSchema()
  */
-export interface CanonSchema {
+export interface CanonSchema<F extends Record<string, FieldDefinition> = Record<string, FieldDefinition>> {
   required: string[];
-  fields: Record<string, FieldDefinition>;
+  fields: F;
   unknownMode?: UnknownFieldMode;
+  mode?: SchemaMode;
 }
 
+/**
+ * TypeScript type of values accepted by a field definition
+ * Enums become literal unions; null is included unless nullable is false
+ */
+export type FieldValue<D extends FieldDefinition> =
+  | (D extends { enum: ReadonlyArray<infer E> } ? E : FieldTypeValue<D>)
+  | (D extends { nullable: false } ? never : null);
+
+/**
+ * Value type for a field's declared type, following items and properties
+ */
+type FieldTypeValue<D extends FieldDefinition> =
+  D['type'] extends 'string' ? string :
+  D['type'] extends 'number' ? number :
+  D['type'] extends 'boolean' ? boolean :
+  D['type'] extends 'array'
+    ? D extends { items: infer I extends FieldDefinition } ? FieldValue<I>[] : unknown[] :
+  D['type'] extends 'object'
+    ? D extends { properties: infer P extends Record<string, FieldDefinition> }
+      ? { -readonly [K in keyof P]?: FieldValue<P[K]> } & (D extends { additionalProperties: true } ? Record<string, unknown> : unknown)
+      : Record<string, unknown> :
+  unknown;
+
+/**
+ * Field definitions declared by a schema, without the index signature of untyped schemas
+ */
+type DeclaredFields<S extends CanonSchema<any>> = {
+  [K in keyof S['fields'] as string extends K ? never : K]: S['fields'][K];
+};
+
+/**
+ * Path pattern for a field key; '*' segments match any key or index
+ */
+type PathPattern<K extends string> =
+  K extends `${infer Head}*${infer Tail}` ? `${Head}${string}${PathPattern<Tail>}` : K;
+
+/**
+ * Paths accepted by CanonContext.set() for a schema
+ * Untyped schemas accept any string
+ */
+export type SchemaPath<S extends CanonSchema<any>> =
+  [keyof DeclaredFields<S>] extends [never]
+    ? string
+    : { [K in keyof DeclaredFields<S> & string]: PathPattern<K> }[keyof DeclaredFields<S> & string];
+
+/**
+ * Value type accepted by CanonContext.set() at a path of a schema
+ */
+export type SchemaValue<S extends CanonSchema<any>, P extends string> =
+  [keyof DeclaredFields<S>] extends [never]
+    ? unknown
+    : {
+        [K in keyof DeclaredFields<S> & string]: P extends PathPattern<K>
+          ? DeclaredFields<S>[K] extends FieldDefinition ? FieldValue<DeclaredFields<S>[K]> : never
+          : never;
+      }[keyof DeclaredFields<S> & string];
+
 /**
  * Normalized error structure attached to events
  */
@@ -68,6 +191,8 @@ export interface WideEvent {
   timestamp: string;
   request_id: string;
   trace_id?: string;
+  span_id?: string;
+  parent_span_id?: string;
   
   service: string;
   version?: string;
@@ -86,6 +211,10 @@ export interface WideEvent {
   outcome: RequestOutcome;
   error?: CanonError;
   
+  sample_rate?: number;
+  sample_reason?: SampleReason;
+  sample_rule?: string;
+  
   [key: string]: unknown;
 }
 
@@ -98,20 +227,272 @@ export interface RedactionConfig {
   fields: string[];
 }
 
+/**
+ * Key used for trace-consistent sampling
+ * Events with the same key get the same keep/drop decision in every process
+ */
+export type ConsistentSamplingKey =
+  | 'trace_id'
+  | 'request_id'
+  | ((event: WideEvent) => string | undefined);
+
+/**
+ * Why an event was kept (or considered) by the sampler
+ */
+export type SampleReason =
+  | 'error'
+  | 'status_429'
+  | 'status_408'
+  | 'aborted'
+  | 'slow'
+  | 'slo_breach'
+  | 'random'
+  | 'adaptive'
+  | 'custom'
+  | 'rule'
+  | 'debug';
+
+/**
+ * Outcome of a sampling decision
+ * rate is the probability the event had of being kept (weight = 1 / rate)
+ */
+export interface SamplingDecision {
+  sampled: boolean;
+  rate: number;
+  reason: SampleReason;
+  rule?: string;
+}
+
+/**
+ * Scalar value a sampling rule can compare against
+ */
+export type SamplingMatchValue = string | number | boolean;
+
+/**
+ * Comparison applied to one event field in a sampling rule's `when`
+ */
+export interface SamplingCondition {
+  eq?: SamplingMatchValue;
+  ne?: SamplingMatchValue;
+  in?: SamplingMatchValue[];
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Declarative sampling rule
+ * Matches when every `match` field equals its value and every `when` condition holds;
+ * keys are dot paths into the event. A rule with neither matches every event.
+ */
+export interface SamplingRule {
+  name?: string;
+  match?: Record<string, SamplingMatchValue>;
+  when?: Record<string, SamplingCondition>;
+  rate: number;
+}
+
+/**
+ * Custom sampling function
+ * Booleans are accepted for compatibility and recorded as rate 1, reason 'custom'
+ */
+export type Sampler = (event: WideEvent) => boolean | SamplingDecision;
+
+/**
+ * Latency threshold for routes matching a template (exact) or pattern
+ * Strings are compared with the route template, falling back to the path
+ */
+export interface RouteLatencyThreshold {
+  route: string | RegExp;
+  thresholdMs: number;
+}
+
+/**
+ * Latency SLO stamped onto every event as slo.latency_target_ms / slo.breached
+ */
+export interface SloConfig {
+  latencyTargetMs: number;
+  
+  /**
+   * Per-route targets; the first match overrides latencyTargetMs
+   */
+  routes?: RouteLatencyThreshold[];
+}
+
+/**
+ * Adaptive sampling: replace the fixed success rate with one that targets
+ * a throughput of kept events per key
+ */
+export interface AdaptiveSamplingConfig {
+  targetPerSecond: number;
+  
+  /**
+   * Dot path or function giving the budget key (default: route, then path)
+   */
+  key?: string | ((event: WideEvent) => string | undefined);
+  
+  windowMs?: number;
+  maxKeys?: number;
+}
+
 /**
  * Sampling configuration with deterministic defaults
  */
 export interface SamplingConfig {
   sampleRateSuccess?: number;
   slowThresholdMs?: number;
-  custom?: (event: WideEvent) => boolean;
+  
+  /**
+   * Per-route slow thresholds; the first match overrides slowThresholdMs
+   */
+  routeSlowThresholds?: RouteLatencyThreshold[];
+  custom?: Sampler;
+  
+  /**
+   * Rules evaluated in order before the default rules; first match wins
+   */
+  rules?: SamplingRule[];
+  
+  /**
+   * Target kept events per second per key instead of sampleRateSuccess
+   * Always-sample rules still apply
+   */
+  adaptive?: AdaptiveSamplingConfig;
+  
+  /**
+   * Hash this key instead of Math.random() for the success rate
+   * Falls back to Math.random() when the key is missing
+   */
+  consistentBy?: ConsistentSamplingKey;
 }
 
 /**
  * Function signature for event emission
+ * Async functions are accepted too: a returned promise is detected at
+ * runtime and its rejection is handled like a throw
  */
 export type EmitFunction = (event: WideEvent) => void;
 
+/**
+ * One destination for events, with its own filter, redaction and sampling
+ */
+export interface CanonSink {
+  /**
+   * Name reported in internal events (default: position, e.g. '#2')
+   */
+  name?: string;
+  
+  emit: EmitFunction;
+  
+  /**
+   * Only events for which this returns true reach the sink
+   * Receives the event after this sink's redaction
+   */
+  filter?: (event: WideEvent) => boolean;
+  
+  /**
+   * Redaction for this sink, applied to the unredacted event (default: CanonConfig.redact)
+   */
+  redact?: RedactionConfig;
+  
+  /**
+   * Sampling for this sink, decided independently (default: CanonConfig.sample)
+   */
+  sample?: SamplingConfig | Sampler;
+}
+
+/**
+ * Failure handling for the emit function
+ */
+export interface EmitGuardConfig {
+  /**
+   * Extra attempts after a failed emit (default: 0)
+   */
+  retries?: number;
+  
+  /**
+   * Delay before the first retry, doubled for each further one (default: 100)
+   */
+  retryBaseMs?: number;
+  
+  /**
+   * Consecutive failed events that open the circuit (default: 5)
+   */
+  failureThreshold?: number;
+  
+  /**
+   * How long an open circuit sends events straight to the fallback (default: 30000)
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Receives every finalized event before sampling (see createMetricsAggregator)
+ */
+export interface MetricsObserver {
+  /**
+   * Record a finalized event
+   * @param event - Redacted event, before validation and sampling
+   * @param schema - Schema of the observing adapter, consulted for label cardinality
+   */
+  observe(event: Partial<WideEvent>, schema?: CanonSchema): void;
+  
+  /**
+   * Pipeline counters, keyed by the event's service
+   */
+  recordEmitted?(event: Partial<WideEvent>): void;
+  recordSampledOut?(event: Partial<WideEvent>): void;
+  recordValidationErrors?(event: Partial<WideEvent>, count: number): void;
+}
+
+/**
+ * Pipeline outcomes reported by CanonConfig.onInternalEvent
+ */
+export type InternalEventType =
+  | 'emitted'
+  | 'sampled_out'
+  | 'validation_dropped'
+  | 'redaction_applied'
+  | 'array_truncated'
+  | 'emitter_threw'
+  | 'circuit_open'
+  | 'late_mutation';
+
+/**
+ * Self-observability event describing what the pipeline did with a request's event
+ */
+export interface InternalEvent {
+  type: InternalEventType;
+  service: string;
+  requestId: string;
+  
+  /**
+   * Sink name, when CanonConfig.sinks is used
+   */
+  sink?: string;
+  
+  /**
+   * Validation errors that caused the drop (validation_dropped)
+   */
+  errors?: string[];
+  
+  /**
+   * Redacted field paths (redaction_applied) or truncated array paths (array_truncated)
+   */
+  fields?: string[];
+  
+  /**
+   * Method called after finalization, e.g. 'enrich' (late_mutation)
+   */
+  method?: string;
+  
+  /**
+   * Value thrown by the emit function (emitter_threw)
+   */
+  error?: unknown;
+}
+
 /**
  * Main Canon configuration for middleware
  */
@@ -127,24 +508,76 @@ export interface CanonConfig {
   traceIdHeader?: string;
   trustIncomingIds?: boolean;
   
+  /**
+   * Trace ID format for new traces: 'canon' (trace_ prefixed) or 'w3c' (32 hex chars)
+   * Incoming traceparent headers are honored in both modes
+   */
+  traceContext?: TraceContextMode;
+  
+  /**
+   * Start an OpenTelemetry server span per request when @opentelemetry/api
+   * and an SDK are installed; implies traceContext 'w3c'
+   */
+  otelSpans?: boolean;
+  
   emit?: EmitFunction;
   
+  /**
+   * Receives events the emit function failed on, or skipped while its circuit is open
+   * Default: JSON line to stderr
+   */
+  fallbackEmit?: EmitFunction;
+  
+  emitGuard?: EmitGuardConfig;
+  
+  /**
+   * Send each event to several destinations instead of emit
+   * Each sink gets its own redaction pass and sampling decision, and at most one event per request
+   */
+  sinks?: CanonSink[];
+  
   strict?: boolean;
   
-  sample?: SamplingConfig | ((event: WideEvent) => boolean);
+  sample?: SamplingConfig | Sampler;
   
   redact?: RedactionConfig;
   
+  slo?: SloConfig;
+  
+  /**
+   * Aggregate counters and latency histograms from every event, sampled or not
+   * true uses the shared default aggregator (served by canonMetricsHandler())
+   */
+  metrics?: MetricsObserver | boolean;
+  
+  /**
+   * Called for every pipeline outcome (emitted, dropped, redacted, ...)
+   * Counts are also kept process-wide, see getCanonStats()
+   */
+  onInternalEvent?: (event: InternalEvent) => void;
+  
   debug?: boolean;
   
+  /**
+   * Keep the stack of Error objects passed to markError() on error.stack
+   * Off by default; useful in development with createDevEmitter()
+   */
+  errorStack?: boolean;
+  
   ignorePaths?: (string | RegExp)[] | ((path: string) => boolean);
+  
+  /**
+   * Expose the request context via getCanon()/useCanon() (AsyncLocalStorage)
+   * Off by default; req.canon is always available
+   */
+  ambientContext?: boolean;
 }
 
 /**
  * Per-request Canon context API
  * Attached to request objects for incremental event building
  */
-export interface CanonContext {
+export interface CanonContext<S extends CanonSchema<any> = CanonSchema> {
   /**
    * Merge nested objects into the event
    * @param obj - Object to merge into event
@@ -153,10 +586,11 @@ export interface CanonContext {
   
   /**
    * Set a value at a dot-separated path
+   * Typed against the schema's fields when S comes from defineCanonSchema()
    * @param path - Dot-separated path (e.g., "user.id")
    * @param value - Value to set
    */
-  set(path: string, value: unknown): void;
+  set<P extends SchemaPath<S>>(path: P, value: SchemaValue<S, P>): void;
   
   /**
    * Get a readonly snapshot of the current event
@@ -190,9 +624,15 @@ export interface InternalCanonContext extends CanonContext {
   /**
    * Finalize the event and emit it
    * @param outcome - Request outcome
-   * @param statusCode - HTTP status code
+   * @param statusCode - HTTP status code (omitted for jobs)
+   */
+  finalize(outcome: RequestOutcome, statusCode?: number): void;
+  
+  /**
+   * Run a function with the request's OpenTelemetry span active
+   * Present only when a span was started (otelSpans)
    */
-  finalize(outcome: RequestOutcome, statusCode: number): void;
+  runInSpan?<T>(fn: () => T): T;
 }
 
 /**
@@ -211,9 +651,16 @@ export const DEFAULTS = {
   requestIdHeader: 'x-request-id',
   traceIdHeader: 'x-trace-id',
   trustIncomingIds: true,
+  traceContext: 'canon' as TraceContextMode,
   strict: false,
   sampleRateSuccess: 0.05,
   slowThresholdMs: 2000,
+  adaptiveWindowMs: 10_000,
+  adaptiveMaxKeys: 1000,
+  emitRetries: 0,
+  emitRetryBaseMs: 100,
+  emitFailureThreshold: 5,
+  emitCooldownMs: 30_000,
   redactionStrategy: 'mask' as RedactionStrategy,
   unknownFieldMode: 'allow' as UnknownFieldMode,
 } as const;
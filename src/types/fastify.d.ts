@@ -0,0 +1,14 @@
+/**
+ * Fastify type augmentation for Canon
+ * Adds request.canon property to Fastify request objects
+ */
+
+import type { CanonContext } from '../types.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    canon: CanonContext;
+  }
+}
+
+export {};
@@ -0,0 +1,285 @@
+/**
+ * Buffered Emitter
+ * 
+ * Moves event delivery off the request path:
+ * - Events are queued in memory and written in batches
+ * - Stream targets respect backpressure (waits for 'drain', fails the batch
+ *   on 'error' or 'close')
+ * - The queue is bounded; overflow is dropped and counted
+ * - flush()/close() drain the queue, hooked to SIGTERM and beforeExit through
+ *   one process listener shared by all emitters
+ */
+
+import type { EmitFunction, WideEvent } from '../types.js';
+
+/**
+ * Minimal writable stream interface (process.stdout, fs.WriteStream, sockets)
+ */
+export interface WritableLike {
+  write(chunk: string): boolean;
+  once(event: 'drain' | 'error' | 'close', listener: (err?: unknown) => void): unknown;
+  removeListener?(event: 'drain' | 'error' | 'close', listener: (err?: unknown) => void): unknown;
+  destroyed?: boolean;
+}
+
+/**
+ * Options for createBufferedEmitter()
+ * Exactly one target is used: emitBatch, then emit, then stream (default stdout)
+ */
+export interface BufferedEmitterOptions {
+  emit?: EmitFunction;
+  emitBatch?: (events: WideEvent[]) => void | Promise<void>;
+  stream?: WritableLike;
+  maxBatch?: number;
+  flushIntervalMs?: number;
+  maxQueue?: number;
+  onDrop?: (event: WideEvent, droppedTotal: number) => void;
+  handleSignals?: boolean;
+}
+
+/**
+ * Delivery counters for a buffered emitter
+ */
+export interface BufferedEmitterStats {
+  queued: number;
+  emitted: number;
+  dropped: number;
+  failed: number;
+  batches: number;
+}
+
+/**
+ * Emit function with lifecycle controls
+ */
+export interface BufferedEmitter extends EmitFunction {
+  /**
+   * Write all queued events; resolves once they are delivered
+   */
+  flush(): Promise<void>;
+  
+  /**
+   * Stop the flush timer, detach shutdown hooks and flush remaining events
+   */
+  close(): Promise<void>;
+  
+  /**
+   * Get a snapshot of delivery counters
+   */
+  stats(): BufferedEmitterStats;
+}
+
+/**
+ * Default buffering limits
+ */
+export const BUFFERED_EMITTER_DEFAULTS = {
+  maxBatch: 100,
+  flushIntervalMs: 1000,
+  maxQueue: 10_000,
+} as const;
+
+/**
+ * Open emitters flushed on beforeExit and closed on SIGTERM
+ * The process listeners are attached while the set is non-empty
+ */
+const shutdownEmitters = new Set<BufferedEmitter>();
+
+/**
+ * Flush every open emitter before the process exits
+ */
+function flushOnExit(): void {
+  for (const emitter of shutdownEmitters) {
+    void emitter.flush();
+  }
+}
+
+/**
+ * Close every open emitter, then re-raise SIGTERM if nothing else handles it
+ * close() detaches each emitter, so the listener is gone by the time it re-raises
+ */
+function closeOnSigterm(): void {
+  void Promise.all([...shutdownEmitters].map(emitter => emitter.close())).then(() => {
+    if (process.listenerCount('SIGTERM') === 0) {
+      process.kill(process.pid, 'SIGTERM');
+    }
+  });
+}
+
+/**
+ * Register an emitter with the shared shutdown listeners
+ */
+function attachShutdownHooks(emitter: BufferedEmitter): void {
+  if (shutdownEmitters.size === 0) {
+    process.on('beforeExit', flushOnExit);
+    process.on('SIGTERM', closeOnSigterm);
+  }
+  shutdownEmitters.add(emitter);
+}
+
+/**
+ * Unregister an emitter, removing the shared listeners after the last one
+ */
+function detachShutdownHooks(emitter: BufferedEmitter): void {
+  if (shutdownEmitters.delete(emitter) && shutdownEmitters.size === 0) {
+    process.removeListener('beforeExit', flushOnExit);
+    process.removeListener('SIGTERM', closeOnSigterm);
+  }
+}
+
+/**
+ * Create a batching, non-blocking emitter
+ * 
+ * @param opts - Target and buffering options
+ * @returns Emit function to pass as CanonConfig.emit
+ */
+export function createBufferedEmitter(opts: BufferedEmitterOptions = {}): BufferedEmitter {
+  const maxBatch = Math.max(1, opts.maxBatch ?? BUFFERED_EMITTER_DEFAULTS.maxBatch);
+  const maxQueue = Math.max(1, opts.maxQueue ?? BUFFERED_EMITTER_DEFAULTS.maxQueue);
+  const flushIntervalMs = opts.flushIntervalMs ?? BUFFERED_EMITTER_DEFAULTS.flushIntervalMs;
+  const writeBatch = createBatchWriter(opts);
+  
+  const queue: WideEvent[] = [];
+  const stats: BufferedEmitterStats = { queued: 0, emitted: 0, dropped: 0, failed: 0, batches: 0 };
+  
+  let flushing: Promise<void> = Promise.resolve();
+  let flushScheduled = false;
+  let closed = false;
+  
+  const drain = async (): Promise<void> => {
+    while (queue.length > 0) {
+      const batch = queue.splice(0, maxBatch);
+      try {
+        const failed = (await writeBatch(batch)) ?? 0;
+        stats.emitted += batch.length - failed;
+        stats.failed += failed;
+      } catch {
+        stats.failed += batch.length;
+      }
+      stats.batches++;
+    }
+  };
+  
+  const flush = (): Promise<void> => {
+    flushing = flushing.then(drain);
+    return flushing;
+  };
+  
+  const scheduleFlush = (): void => {
+    if (flushScheduled) return;
+    flushScheduled = true;
+    setTimeout(() => {
+      flushScheduled = false;
+      void flush();
+    }, 0);
+  };
+  
+  const timer = flushIntervalMs > 0
+    ? setInterval(() => void flush(), flushIntervalMs)
+    : undefined;
+  timer?.unref?.();
+  
+  const handleSignals = (opts.handleSignals ?? true)
+    && typeof process !== 'undefined'
+    && typeof process.on === 'function';
+  
+  const close = async (): Promise<void> => {
+    if (!closed) {
+      closed = true;
+      if (timer) clearInterval(timer);
+      if (handleSignals) detachShutdownHooks(emitter);
+    }
+    await flush();
+  };
+  
+  const emitter = ((event: WideEvent): void => {
+    if (queue.length >= maxQueue) {
+      stats.dropped++;
+      opts.onDrop?.(event, stats.dropped);
+      return;
+    }
+    
+    queue.push(event);
+    
+    if (closed || queue.length >= maxBatch) {
+      scheduleFlush();
+    }
+  }) as BufferedEmitter;
+  
+  emitter.flush = flush;
+  emitter.close = close;
+  emitter.stats = () => ({ ...stats, queued: queue.length });
+  
+  if (handleSignals) {
+    attachShutdownHooks(emitter);
+  }
+  
+  return emitter;
+}
+
+/**
+ * Resolve the batch writer for the configured target
+ * A writer throws when the whole batch failed, or returns the number of
+ * events that failed individually
+ */
+function createBatchWriter(
+  opts: BufferedEmitterOptions
+): (events: WideEvent[]) => void | number | Promise<void | number> {
+  if (opts.emitBatch) {
+    return opts.emitBatch;
+  }
+  
+  const emit = opts.emit;
+  if (emit) {
+    return async (events) => {
+      let failed = 0;
+      for (const event of events) {
+        try {
+          await emit(event);
+        } catch {
+          failed++;
+        }
+      }
+      return failed;
+    };
+  }
+  
+  const stream = opts.stream ?? process.stdout;
+  return (events) => {
+    if (stream.destroyed) {
+      throw new Error('[canon] Cannot write to a destroyed stream');
+    }
+    const chunk = events.map(event => JSON.stringify(event)).join('\n') + '\n';
+    if (stream.write(chunk)) {
+      return;
+    }
+    return waitForDrain(stream);
+  };
+}
+
+/**
+ * Wait until a stream drains
+ * Rejects when the stream errors or closes first, so flush() never hangs
+ */
+function waitForDrain(stream: WritableLike): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = (): void => {
+      stream.removeListener?.('drain', onDrain);
+      stream.removeListener?.('error', onError);
+      stream.removeListener?.('close', onClose);
+    };
+    const onDrain = (): void => {
+      cleanup();
+      resolve();
+    };
+    const onError = (err: unknown): void => {
+      cleanup();
+      reject(err);
+    };
+    const onClose = (): void => {
+      cleanup();
+      reject(new Error('[canon] Stream closed before draining'));
+    };
+    stream.once('drain', onDrain);
+    stream.once('error', onError);
+    stream.once('close', onClose);
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Development Console Emitter
+ * 
+ * Human-readable output for local development, one summary line per event:
+ * 
+ *   GET /orders/:id 200 34ms req_xxx
+ * 
+ * Errors add the normalized CanonError (type, message, code, stack) below the
+ * line. Enriched fields can be expanded as an indented tree. Colors are used
+ * only when the output is a TTY and NO_COLOR is not set.
+ */
+
+import type { CanonError, EmitFunction, WideEvent } from '../types.js';
+import { CANON_BASE_FIELDS } from '../core/schema.js';
+import { writeStdout } from './emit.js';
+
+/**
+ * Output stream for the dev emitter (process.stdout, or any writable)
+ */
+export interface DevOutputStream {
+  write(chunk: string): unknown;
+  isTTY?: boolean;
+}
+
+/**
+ * Options for formatDevEvent() and createDevEmitter()
+ */
+export interface DevFormatOptions {
+  /**
+   * Use ANSI colors (default: output is a TTY and NO_COLOR is unset)
+   */
+  colors?: boolean;
+  
+  /**
+   * Print enriched fields as a tree: always, never, or per event (default: false)
+   */
+  expand?: boolean | ((event: WideEvent) => boolean);
+}
+
+/**
+ * Options for createDevEmitter()
+ */
+export interface DevEmitterOptions extends DevFormatOptions {
+  stream?: DevOutputStream;
+}
+
+/**
+ * ANSI color codes
+ */
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+} as const;
+
+/**
+ * Top-level fields shown in the summary line or omitted from the tree
+ */
+const SUMMARY_FIELDS = new Set(
+  Object.keys(CANON_BASE_FIELDS).filter(field => !field.includes('.'))
+);
+
+/**
+ * Create an emitter that prints readable, colorized events
+ * 
+ * @param opts - Output stream, colors and field expansion
+ * @returns Emit function to pass as CanonConfig.emit
+ */
+export function createDevEmitter(opts: DevEmitterOptions = {}): EmitFunction {
+  const stream = opts.stream ?? (typeof process !== 'undefined' ? process.stdout : undefined);
+  const colors = opts.colors ?? shouldUseColors(stream);
+  const write = stream ? (text: string) => stream.write(text) : writeStdout;
+  
+  return (event: WideEvent): void => {
+    write(formatDevEvent(event, { ...opts, colors }) + '\n');
+  };
+}
+
+/**
+ * Format an event for humans
+ * 
+ * @param event - Event to format
+ * @param opts - Colors (default: off) and field expansion
+ * @returns Summary line, followed by error and field lines when present
+ */
+export function formatDevEvent(event: WideEvent, opts: DevFormatOptions = {}): string {
+  const paint = (color: keyof typeof ANSI, text: string): string =>
+    opts.colors ? `${ANSI[color]}${text}${ANSI.reset}` : text;
+  
+  const lines = [formatSummary(event, paint)];
+  
+  if (event.error) {
+    lines.push(...formatError(event.error, paint));
+  }
+  
+  const expand = typeof opts.expand === 'function' ? opts.expand(event) : opts.expand;
+  if (expand) {
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(event)) {
+      if (!SUMMARY_FIELDS.has(key) && value !== undefined) {
+        fields[key] = value;
+      }
+    }
+    lines.push(...formatTree(fields, 1, paint));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Colors are off for non-TTY output and when NO_COLOR is set
+ */
+function shouldUseColors(stream: DevOutputStream | undefined): boolean {
+  const noColor = typeof process !== 'undefined' && process.env?.NO_COLOR;
+  return Boolean(stream?.isTTY) && !noColor;
+}
+
+/**
+ * Summary line, e.g. "GET /orders/:id 200 34ms req_xxx"
+ */
+function formatSummary(
+  event: WideEvent,
+  paint: (color: keyof typeof ANSI, text: string) => string
+): string {
+  const job = event.job as { name?: string } | undefined;
+  const parts: string[] = [];
+  
+  if (job?.name && !event.method) {
+    parts.push(paint('bold', 'job'), job.name, paint(outcomeColor(event), event.outcome));
+  } else {
+    parts.push(paint('bold', event.method), event.route ?? event.path);
+    parts.push(paint(outcomeColor(event), String(event.status_code)));
+    if (event.outcome === 'aborted') parts.push(paint('yellow', 'aborted'));
+  }
+  
+  parts.push(`${event.duration_ms}ms`, paint('dim', event.request_id));
+  return parts.join(' ');
+}
+
+/**
+ * Color for the status code (or job outcome)
+ */
+function outcomeColor(event: WideEvent): keyof typeof ANSI {
+  const statusCode = event.status_code ?? 0;
+  if (event.outcome === 'error' || statusCode >= 500) return 'red';
+  if (event.outcome === 'aborted' || statusCode >= 400) return 'yellow';
+  if (statusCode >= 300) return 'cyan';
+  return 'green';
+}
+
+/**
+ * Error lines: "type: message (code)", retriable flag and indented stack
+ */
+function formatError(
+  error: CanonError,
+  paint: (color: keyof typeof ANSI, text: string) => string
+): string[] {
+  const details = [error.code, error.retriable ? 'retriable' : undefined].filter(Boolean);
+  const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+  const lines = [`  ${paint('red', `${error.type}: ${error.message}`)}${suffix}`];
+  
+  if (error.stack) {
+    const frames = error.stack.split('\n').filter(line => line.trim().startsWith('at '));
+    lines.push(...frames.map(frame => paint('dim', `    ${frame.trim()}`)));
+  }
+  
+  return lines;
+}
+
+/**
+ * Indented "key: value" lines; nested objects become child levels
+ */
+function formatTree(
+  obj: Record<string, unknown>,
+  depth: number,
+  paint: (color: keyof typeof ANSI, text: string) => string
+): string[] {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  
+  for (const [key, value] of Object.entries(obj)) {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      lines.push(`${indent}${paint('cyan', key)}`);
+      lines.push(...formatTree(value as Record<string, unknown>, depth + 1, paint));
+    } else {
+      lines.push(`${indent}${paint('cyan', key)}: ${JSON.stringify(value)}`);
+    }
+  }
+  
+  return lines;
+}
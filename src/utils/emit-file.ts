@@ -0,0 +1,197 @@
+/**
+ * File Emitter
+ * 
+ * Writes events as NDJSON files, for hosts without a log shipper:
+ * - Events are appended to <dir>/<fileName>.ndjson in batches
+ * - The active file is rotated by size (maxBytes) and age (maxAgeMs)
+ *   to <fileName>-<timestamp>.ndjson, optionally gzipped
+ * - Only the newest maxFiles rotated files are kept
+ * 
+ * Each batch is appended as whole lines with a single write. If a previous
+ * process died mid-write, the torn line is terminated before appending so it
+ * never merges with a new event. A failed rotation never costs a batch: the
+ * batch is appended to whichever file is active, and rotation is retried
+ * before the next one.
+ * 
+ * Built on createBufferedEmitter(): batches, never blocks requests.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, open, readdir, rename, unlink } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import type { WideEvent } from '../types.js';
+import { createBufferedEmitter } from './emit-buffered.js';
+import type { BufferedEmitter, BufferedEmitterOptions } from './emit-buffered.js';
+
+/**
+ * Options for createFileEmitter()
+ */
+export interface FileEmitterOptions
+  extends Pick<BufferedEmitterOptions, 'maxBatch' | 'flushIntervalMs' | 'maxQueue' | 'onDrop' | 'handleSignals'> {
+  dir: string;
+  fileName?: string;
+  maxBytes?: number;
+  maxAgeMs?: number;
+  maxFiles?: number;
+  compress?: boolean;
+  onRotateError?: (error: unknown) => void;
+}
+
+/**
+ * Default rotation limits
+ */
+export const FILE_EMITTER_DEFAULTS = {
+  fileName: 'canon',
+  maxBytes: 50 * 1024 * 1024,
+  maxFiles: 10,
+} as const;
+
+/**
+ * Extension of NDJSON files
+ */
+const EXTENSION = '.ndjson';
+
+/**
+ * Open active file
+ * openedAt is the file's creation time, so a restart does not reset its age
+ */
+interface ActiveFile {
+  handle: FileHandle;
+  size: number;
+  openedAt: number;
+}
+
+/**
+ * Create an emitter that appends events to rotating NDJSON files
+ * 
+ * @param opts - Directory, rotation, retention and batching options
+ * @returns Buffered emitter to pass as CanonConfig.emit; close() also closes the file
+ */
+export function createFileEmitter(opts: FileEmitterOptions): BufferedEmitter {
+  const fileName = opts.fileName ?? FILE_EMITTER_DEFAULTS.fileName;
+  const maxBytes = opts.maxBytes ?? FILE_EMITTER_DEFAULTS.maxBytes;
+  const maxFiles = opts.maxFiles ?? FILE_EMITTER_DEFAULTS.maxFiles;
+  const activePath = join(opts.dir, fileName + EXTENSION);
+  
+  let active: ActiveFile | undefined;
+  let closed = false;
+  let lastRotation = '';
+  let rotationSeq = 0;
+  
+  const openActive = async (): Promise<ActiveFile> => {
+    await mkdir(opts.dir, { recursive: true });
+    const handle = await open(activePath, 'a+');
+    const stats = await handle.stat();
+    let size = stats.size;
+    const openedAt = size > 0
+      ? Math.min(stats.birthtimeMs || stats.mtimeMs, stats.mtimeMs)
+      : Date.now();
+    
+    if (size > 0) {
+      const last = Buffer.alloc(1);
+      await handle.read(last, 0, 1, size - 1);
+      if (last[0] !== 0x0a) {
+        await handle.appendFile('\n');
+        size++;
+      }
+    }
+    
+    return { handle, size, openedAt };
+  };
+  
+  const nextRotatedPath = (): string => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    rotationSeq = stamp === lastRotation ? rotationSeq + 1 : 0;
+    lastRotation = stamp;
+    const suffix = rotationSeq > 0 ? `-${rotationSeq}` : '';
+    return join(opts.dir, `${fileName}-${stamp}${suffix}${EXTENSION}`);
+  };
+  
+  const rotate = async (file: ActiveFile): Promise<void> => {
+    active = undefined;
+    await file.handle.close();
+    
+    const rotatedPath = nextRotatedPath();
+    await rename(activePath, rotatedPath);
+    
+    if (opts.compress) {
+      try {
+        await pipeline(createReadStream(rotatedPath), createGzip(), createWriteStream(rotatedPath + '.gz'));
+      } catch (err) {
+        await unlink(rotatedPath + '.gz').catch(() => undefined);
+        throw err;
+      }
+      await unlink(rotatedPath);
+    }
+    
+    await removeOldFiles(opts.dir, fileName, maxFiles);
+  };
+  
+  const shouldRotate = (file: ActiveFile, incomingBytes: number): boolean => {
+    if (file.size === 0) return false;
+    if (file.size + incomingBytes > maxBytes) return true;
+    return opts.maxAgeMs !== undefined && Date.now() - file.openedAt >= opts.maxAgeMs;
+  };
+  
+  const writeBatch = async (events: WideEvent[]): Promise<void> => {
+    if (closed) {
+      throw new Error('[canon] File emitter is closed');
+    }
+    
+    const chunk = events.map(event => JSON.stringify(event)).join('\n') + '\n';
+    const bytes = Buffer.byteLength(chunk);
+    
+    active ??= await openActive();
+    if (shouldRotate(active, bytes)) {
+      try {
+        await rotate(active);
+      } catch (err) {
+        opts.onRotateError?.(err);
+      }
+      active ??= await openActive();
+    }
+    
+    await active.handle.appendFile(chunk);
+    active.size += bytes;
+  };
+  
+  const emitter = createBufferedEmitter({
+    maxBatch: opts.maxBatch,
+    flushIntervalMs: opts.flushIntervalMs,
+    maxQueue: opts.maxQueue,
+    onDrop: opts.onDrop,
+    handleSignals: opts.handleSignals,
+    emitBatch: writeBatch,
+  });
+  
+  const closeBuffer = emitter.close;
+  emitter.close = async (): Promise<void> => {
+    await closeBuffer();
+    closed = true;
+    const file = active;
+    active = undefined;
+    await file?.handle.close();
+  };
+  
+  return emitter;
+}
+
+/**
+ * Delete rotated files beyond the newest maxFiles
+ * Rotated names embed an ISO timestamp, so name order is age order
+ */
+async function removeOldFiles(dir: string, fileName: string, maxFiles: number): Promise<void> {
+  const prefix = `${fileName}-`;
+  const baseName = (name: string): string => name.replace(/\.ndjson(\.gz)?$/, '');
+  const rotated = (await readdir(dir))
+    .filter(name => name.startsWith(prefix) && /^\d/.test(name.slice(prefix.length)) && baseName(name) !== name)
+    .sort((a, b) => (baseName(a) < baseName(b) ? -1 : 1));
+  
+  const excess = rotated.slice(0, Math.max(0, rotated.length - maxFiles));
+  for (const name of excess) {
+    await unlink(join(dir, name));
+  }
+}
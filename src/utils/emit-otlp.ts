@@ -0,0 +1,276 @@
+/**
+ * OTLP Log Emitter
+ * 
+ * Ships Canon events to an OpenTelemetry Collector as OTLP/HTTP JSON log records:
+ * - service, version, deployment_id, region -> resource attributes
+ * - trace_id -> log record traceId (when it is a W3C trace ID)
+ * - outcome/status_code -> severity
+ * - everything else -> flattened log record attributes
+ * 
+ * Built on createBufferedEmitter(): batches, retries with backoff, never blocks requests.
+ */
+
+import type { WideEvent } from '../types.js';
+import { flattenAttributes } from '../core/otel.js';
+import { createBufferedEmitter } from './emit-buffered.js';
+import type { BufferedEmitter, BufferedEmitterOptions } from './emit-buffered.js';
+
+/**
+ * OTLP AnyValue (JSON encoding)
+ */
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } };
+
+/**
+ * OTLP KeyValue (JSON encoding)
+ */
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/**
+ * OTLP LogRecord (JSON encoding, subset used by Canon)
+ */
+interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * OTLP logs export request body
+ */
+export interface OtlpLogsPayload {
+  resourceLogs: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeLogs: Array<{
+      scope: { name: string };
+      logRecords: OtlpLogRecord[];
+    }>;
+  }>;
+}
+
+/**
+ * Options for createOtlpLogEmitter()
+ */
+export interface OtlpLogEmitterOptions
+  extends Pick<BufferedEmitterOptions, 'maxBatch' | 'flushIntervalMs' | 'maxQueue' | 'onDrop' | 'handleSignals'> {
+  endpoint: string;
+  headers?: Record<string, string>;
+  resource?: Record<string, string | number | boolean>;
+  maxRetries?: number;
+  retryBaseMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Event fields mapped to OTLP resource attributes
+ */
+const RESOURCE_FIELDS: Record<string, string> = {
+  service: 'service.name',
+  version: 'service.version',
+  deployment_id: 'deployment.id',
+  region: 'cloud.region',
+};
+
+/**
+ * Event fields mapped onto the log record itself rather than attributes
+ */
+const RECORD_FIELDS = new Set(['timestamp', 'trace_id', 'span_id']);
+
+/**
+ * HTTP status codes worth retrying
+ */
+const RETRIABLE_STATUS_CODES = new Set([408, 429, 502, 503, 504]);
+
+/**
+ * OTLP severity numbers
+ */
+const SEVERITY = {
+  INFO: 9,
+  WARN: 13,
+  ERROR: 17,
+} as const;
+
+/**
+ * Instrumentation scope reported on every batch
+ */
+const SCOPE_NAME = 'canon-observability';
+
+/**
+ * Create an emitter that exports events as OTLP/HTTP JSON logs
+ * 
+ * @param opts - Collector endpoint (e.g. http://localhost:4318/v1/logs), headers and batching
+ * @returns Buffered emitter to pass as CanonConfig.emit
+ */
+export function createOtlpLogEmitter(opts: OtlpLogEmitterOptions): BufferedEmitter {
+  const maxRetries = opts.maxRetries ?? 3;
+  const retryBaseMs = opts.retryBaseMs ?? 200;
+  const timeoutMs = opts.timeoutMs ?? 10_000;
+  
+  const send = async (payload: OtlpLogsPayload): Promise<void> => {
+    for (let attempt = 0; ; attempt++) {
+      let retriable: boolean;
+      let failure: string;
+      
+      try {
+        const response = await fetch(opts.endpoint, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...opts.headers },
+          body: JSON.stringify(payload),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        
+        if (response.ok) {
+          return;
+        }
+        
+        retriable = RETRIABLE_STATUS_CODES.has(response.status);
+        failure = `HTTP ${response.status}`;
+      } catch (err) {
+        retriable = true;
+        failure = err instanceof Error ? err.message : String(err);
+      }
+      
+      if (!retriable || attempt >= maxRetries) {
+        throw new Error(`[canon] OTLP export failed after ${attempt + 1} attempt(s): ${failure}`);
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, retryBaseMs * 2 ** attempt));
+    }
+  };
+  
+  return createBufferedEmitter({
+    maxBatch: opts.maxBatch,
+    flushIntervalMs: opts.flushIntervalMs,
+    maxQueue: opts.maxQueue,
+    onDrop: opts.onDrop,
+    handleSignals: opts.handleSignals,
+    emitBatch: (events) => send(toOtlpLogsPayload(events, opts.resource)),
+  });
+}
+
+/**
+ * Convert events into an OTLP logs payload
+ * Events are grouped by resource so mixed services stay distinguishable
+ * 
+ * @param events - Events to convert
+ * @param extraResource - Additional resource attributes
+ */
+export function toOtlpLogsPayload(
+  events: WideEvent[],
+  extraResource?: Record<string, string | number | boolean>
+): OtlpLogsPayload {
+  const groups = new Map<string, { resource: OtlpKeyValue[]; records: OtlpLogRecord[] }>();
+  
+  for (const event of events) {
+    const resource: Record<string, unknown> = { ...extraResource };
+    for (const [field, key] of Object.entries(RESOURCE_FIELDS)) {
+      if (event[field] !== undefined) {
+        resource[key] = event[field];
+      }
+    }
+    
+    const groupKey = JSON.stringify(resource);
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { resource: toKeyValues(resource), records: [] };
+      groups.set(groupKey, group);
+    }
+    
+    group.records.push(toLogRecord(event));
+  }
+  
+  return {
+    resourceLogs: Array.from(groups.values(), group => ({
+      resource: { attributes: group.resource },
+      scopeLogs: [{ scope: { name: SCOPE_NAME }, logRecords: group.records }],
+    })),
+  };
+}
+
+/**
+ * Convert a single event into an OTLP log record
+ */
+function toLogRecord(event: WideEvent): OtlpLogRecord {
+  const attributes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (key in RESOURCE_FIELDS || RECORD_FIELDS.has(key) || value === undefined) continue;
+    attributes[key] = value;
+  }
+  
+  const severity = getSeverity(event);
+  const timeMs = Date.parse(event.timestamp);
+  const timeUnixNano = Number.isNaN(timeMs) ? '0' : (BigInt(timeMs) * 1_000_000n).toString();
+  
+  const record: OtlpLogRecord = {
+    timeUnixNano,
+    observedTimeUnixNano: timeUnixNano,
+    severityNumber: SEVERITY[severity],
+    severityText: severity,
+    body: { stringValue: summarize(event) },
+    attributes: toKeyValues(flattenAttributes(attributes)),
+  };
+  
+  if (typeof event.trace_id === 'string' && /^[0-9a-f]{32}$/.test(event.trace_id)) {
+    record.traceId = event.trace_id;
+  } else if (event.trace_id !== undefined) {
+    record.attributes.push({ key: 'trace_id', value: toAnyValue(event.trace_id) });
+  }
+  
+  if (typeof event.span_id === 'string' && /^[0-9a-f]{16}$/.test(event.span_id)) {
+    record.spanId = event.span_id;
+  }
+  
+  return record;
+}
+
+/**
+ * Map outcome and status code to an OTLP severity
+ */
+function getSeverity(event: WideEvent): keyof typeof SEVERITY {
+  const statusCode = event.status_code ?? 0;
+  if (event.outcome === 'error' || statusCode >= 500) return 'ERROR';
+  if (event.outcome === 'aborted' || statusCode >= 400) return 'WARN';
+  return 'INFO';
+}
+
+/**
+ * One-line human readable body, e.g. "GET /orders/:id 200"
+ */
+function summarize(event: WideEvent): string {
+  const job = event.job as { name?: string } | undefined;
+  if (job?.name && !event.method) {
+    return `job ${job.name} ${event.outcome}`;
+  }
+  return `${event.method} ${event.route ?? event.path} ${event.status_code}`;
+}
+
+/**
+ * Convert a flat attribute record into OTLP KeyValues
+ */
+function toKeyValues(attrs: Record<string, unknown>): OtlpKeyValue[] {
+  return Object.entries(attrs).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * Convert a primitive or array into an OTLP AnyValue
+ */
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  return { stringValue: String(value) };
+}
@@ -20,7 +20,31 @@ export function createConsoleEmitter(opts?: { pretty?: boolean }): EmitFunction
     const json = pretty 
       ? JSON.stringify(event, null, 2)
       : JSON.stringify(event);
-    process.stdout.write(json + '\n');
+    writeStdout(json + '\n');
   };
 }
 
+
+/**
+ * Write a line to stdout
+ * Falls back to console.log on runtimes without process.stdout (edge)
+ */
+export function writeStdout(line: string): void {
+  if (typeof process !== 'undefined' && process.stdout?.write) {
+    process.stdout.write(line);
+    return;
+  }
+  console.log(line.replace(/\n$/, ''));
+}
+
+/**
+ * Write a line to stderr
+ * Falls back to console.error on runtimes without process.stderr (edge)
+ */
+export function writeStderr(line: string): void {
+  if (typeof process !== 'undefined' && process.stderr?.write) {
+    process.stderr.write(line);
+    return;
+  }
+  console.error(line.replace(/\n$/, ''));
+}
@@ -0,0 +1,160 @@
+/**
+ * HTTP Utilities
+ * Framework-agnostic helpers shared by the HTTP adapters
+ */
+
+import type { IncomingHttpHeaders, ServerResponse } from 'node:http';
+import type { CanonConfig, InternalCanonContext, RequestOutcome } from '../types.js';
+
+/**
+ * Minimal request shape needed to resolve the client IP
+ * Satisfied by node:http IncomingMessage and framework request objects
+ */
+interface ClientIpSource {
+  headers: IncomingHttpHeaders;
+  socket?: { remoteAddress?: string } | null;
+}
+
+/**
+ * Create a matcher for the ignorePaths configuration
+ * Defaults to ignoring common browser noise in debug mode
+ * 
+ * @param config - Canon configuration
+ * @param debug - Resolved debug flag
+ * @returns Function returning true when a path should not produce an event
+ */
+export function createIgnorePathMatcher(
+  config: CanonConfig,
+  debug: boolean
+): (path: string) => boolean {
+  const defaultIgnorePaths = ['/favicon.ico', '/robots.txt', '/sw.js'];
+  const ignorePaths = config.ignorePaths ?? (debug ? defaultIgnorePaths : undefined);
+  
+  return (path: string): boolean => {
+    if (!ignorePaths) return false;
+    
+    if (typeof ignorePaths === 'function') {
+      return ignorePaths(path);
+    }
+    
+    return ignorePaths.some(pattern => {
+      if (typeof pattern === 'string') {
+        return path === pattern;
+      }
+      return pattern.test(path);
+    });
+  };
+}
+
+/**
+ * Extract and normalize client IP from request
+ * - Prefers socket.remoteAddress for direct connections
+ * - Falls back to proxy headers (x-forwarded-for, x-real-ip)
+ * - Normalizes IPv6-mapped IPv4 addresses (strips ::ffff: prefix)
+ */
+export function getClientIp(req: ClientIpSource): string | undefined {
+  let ip: string | undefined;
+  
+  ip = req.socket?.remoteAddress;
+  
+  if (!ip) {
+    const xForwardedFor = req.headers['x-forwarded-for'];
+    if (xForwardedFor) {
+      const ips = Array.isArray(xForwardedFor)
+        ? xForwardedFor[0]
+        : xForwardedFor.split(',')[0];
+      ip = ips?.trim();
+    }
+  }
+  
+  if (!ip) {
+    const xRealIp = req.headers['x-real-ip'];
+    if (xRealIp) {
+      ip = Array.isArray(xRealIp) ? xRealIp[0] : xRealIp;
+    }
+  }
+  
+  return normalizeIp(ip);
+}
+
+/**
+ * Normalize IP address
+ * - Strips ::ffff: prefix from IPv6-mapped IPv4 addresses
+ * - Preserves ::1 and other valid IPv6 addresses unchanged
+ * - Returns undefined for empty/invalid values
+ */
+export function normalizeIp(ip: string | undefined): string | undefined {
+  if (!ip || ip.length === 0) {
+    return undefined;
+  }
+  
+  if (ip.startsWith('::ffff:')) {
+    return ip.slice(7);
+  }
+  
+  return ip;
+}
+
+/**
+ * Strip the query string from a request URL
+ */
+export function pathFromUrl(url: string | undefined): string {
+  if (!url) return '/';
+  const queryIndex = url.indexOf('?');
+  return queryIndex === -1 ? url : url.slice(0, queryIndex);
+}
+
+/**
+ * Set propagation headers (request/trace IDs, traceparent) on a response
+ */
+export function setResponseHeaders(
+  res: Pick<ServerResponse, 'setHeader'>,
+  headers: Record<string, string>
+): void {
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+}
+
+/**
+ * Finalize a Canon context when a node:http response completes
+ * Listens to both 'finish' and 'close' events for complete coverage:
+ * - 'finish': Normal response completion
+ * - 'close': Client disconnect/abort (without finish), emitted as 499
+ * 
+ * @param res - Server response to observe
+ * @param context - Canon context for the request
+ * @param emit - Emission callback from createCanonContext
+ * @param beforeFinalize - Optional hook to add framework data (e.g. route) before emission
+ */
+export function bindResponseLifecycle(
+  res: ServerResponse,
+  context: InternalCanonContext,
+  emit: (outcome: RequestOutcome, statusCode: number) => void,
+  beforeFinalize?: () => void
+): void {
+  let finalized = false;
+  
+  const finalizeOnce = (outcome: RequestOutcome, overrideStatusCode?: number): void => {
+    if (finalized) return;
+    finalized = true;
+    
+    beforeFinalize?.();
+    
+    const statusCode = overrideStatusCode ?? (res.statusCode || 200);
+    emit(outcome, statusCode);
+  };
+  
+  res.on('finish', () => {
+    const hasError = context.get().error !== undefined;
+    const outcome: RequestOutcome = hasError ? 'error' : 'success';
+    finalizeOnce(outcome);
+  });
+  
+  res.on('close', () => {
+    if (finalized) return;
+    if (res.writableEnded) return;
+    
+    finalizeOnce('aborted', 499);
+  });
+}
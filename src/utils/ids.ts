@@ -1,9 +1,9 @@
 /**
  * ID Generation Utilities
- * Generates unique request and trace IDs using cryptographically secure randomness
+ * Generates unique request, trace and span IDs using cryptographically secure randomness
  */
 
-import { randomBytes } from 'node:crypto';
+import { randomBytes } from './crypto.js';
 
 const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
 
@@ -11,7 +11,7 @@ const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
  * Encode bytes to base32 string
  * Uses lowercase RFC 4648 alphabet for URL-safe, case-insensitive IDs
  */
-function toBase32(bytes: Buffer): string {
+function toBase32(bytes: Uint8Array): string {
   let result = '';
   let bits = 0;
   let value = 0;
@@ -49,6 +49,33 @@ export function generateTraceId(): string {
   return 'trace_' + toBase32(randomBytes(10));
 }
 
+/**
+ * Generate a W3C trace ID
+ * Format: 32 lowercase hex chars (128 bits), never all zeros
+ */
+export function generateW3CTraceId(): string {
+  return toNonZeroHex(randomBytes(16));
+}
+
+/**
+ * Generate a W3C span ID
+ * Format: 16 lowercase hex chars (64 bits), never all zeros
+ */
+export function generateSpanId(): string {
+  return toNonZeroHex(randomBytes(8));
+}
+
+/**
+ * Encode bytes to lowercase hex, forcing a non-zero value
+ * The W3C spec treats all-zero IDs as invalid
+ */
+function toNonZeroHex(bytes: Uint8Array): string {
+  if (bytes.every(byte => byte === 0)) {
+    bytes[bytes.length - 1] = 1;
+  }
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Validate a request ID format
  * Must start with "req_" and have valid base32 chars
@@ -71,6 +98,20 @@ export function isValidTraceId(id: string): boolean {
   return /^[a-z2-7]+$/.test(suffix);
 }
 
+/**
+ * Validate a W3C trace ID (32 lowercase hex chars, not all zeros)
+ */
+export function isW3CTraceId(id: string): boolean {
+  return /^[0-9a-f]{32}$/.test(id) && !/^0+$/.test(id);
+}
+
+/**
+ * Validate a W3C span ID (16 lowercase hex chars, not all zeros)
+ */
+export function isW3CSpanId(id: string): boolean {
+  return /^[0-9a-f]{16}$/.test(id) && !/^0+$/.test(id);
+}
+
 /**
  * Extract or generate a request ID from headers
  * @param headerValue - Value from request header
@@ -0,0 +1,64 @@
+/**
+ * Route Matching Utilities
+ * Resolves per-route latency thresholds for sampling and SLOs
+ */
+
+import type { RouteLatencyThreshold, WideEvent } from '../types.js';
+
+/**
+ * Find the first threshold matching an event's route
+ * Strings match the route template exactly (or the path when no route is set);
+ * RegExps are tested against the route, then the path
+ * 
+ * @param event - Finalized event
+ * @param thresholds - Thresholds in priority order
+ * @returns Matching threshold, or undefined
+ */
+export function findRouteThreshold(
+  event: Partial<WideEvent>,
+  thresholds: RouteLatencyThreshold[] | undefined
+): RouteLatencyThreshold | undefined {
+  if (!thresholds || thresholds.length === 0) {
+    return undefined;
+  }
+  
+  const target = event.route ?? event.path;
+  if (target === undefined) {
+    return undefined;
+  }
+  
+  const candidates = [event.route, event.path].filter((value): value is string => value !== undefined);
+  
+  return thresholds.find(({ route }) =>
+    typeof route === 'string' ? route === target : candidates.some(value => route.test(value))
+  );
+}
+
+/**
+ * Validate a list of route thresholds
+ * 
+ * @param thresholds - Value to validate
+ * @param name - Config path used in error messages (e.g. "slo.routes")
+ * @throws Error describing the first invalid entry
+ */
+export function validateRouteThresholds(thresholds: unknown, name: string): void {
+  if (thresholds === undefined) return;
+  
+  if (!Array.isArray(thresholds)) {
+    throw new Error(`[canon] ${name} must be an array`);
+  }
+  
+  thresholds.forEach((entry: unknown, index) => {
+    const { route, thresholdMs } = (entry ?? {}) as Record<string, unknown>;
+    
+    if (typeof route !== 'string' && !(route instanceof RegExp)) {
+      throw new Error(`[canon] ${name}[${index}].route must be a string or RegExp`);
+    }
+    if (route instanceof RegExp && (route.global || route.sticky)) {
+      throw new Error(`[canon] ${name}[${index}].route must not use the g or y flag`);
+    }
+    if (typeof thresholdMs !== 'number' || !(thresholdMs >= 0)) {
+      throw new Error(`[canon] ${name}[${index}].thresholdMs must be a non-negative number`);
+    }
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * Runtime Utilities
+ * Loading of modules that may be missing at runtime, without static imports
+ * (so edge bundles never reference them) and without top-level await (so
+ * the package stays synchronously loadable, including via require())
+ */
+
+/**
+ * Load a module synchronously if the runtime allows it
+ * Uses require under CommonJS, and process.getBuiltinModule (Node.js >= 20.16)
+ * under ESM: directly for node: built-ins, via createRequire for packages
+ * 
+ * @param specifier - Module specifier (e.g. 'node:crypto')
+ * @returns Module, or undefined if it is missing or cannot be loaded synchronously
+ */
+export function requireOptional<T>(specifier: string): T | undefined {
+  try {
+    if (typeof require === 'function') {
+      return require(specifier) as T;
+    }
+    if (typeof process === 'undefined' || typeof process.getBuiltinModule !== 'function') {
+      return undefined;
+    }
+    if (specifier.startsWith('node:')) {
+      return process.getBuiltinModule(specifier) as T | undefined;
+    }
+    const nodeModule = process.getBuiltinModule('node:module');
+    return nodeModule?.createRequire(import.meta.url)(specifier) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Import a module that may be unavailable: an optional peer dependency, or a
+ * Node.js built-in on edge runtimes
+ * 
+ * The specifier is hidden from bundlers, so edge builds neither bundle the
+ * module nor fail when it cannot be resolved.
+ * 
+ * @param specifier - Module specifier (e.g. '@opentelemetry/api')
+ * @returns Module namespace, or undefined if it cannot be loaded
+ */
+export async function importOptional<T>(specifier: string): Promise<T | undefined> {
+  try {
+    return (await import(/* webpackIgnore: true */ /* @vite-ignore */ specifier)) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -5,10 +5,14 @@
 
 /**
  * Get current high-resolution timestamp in milliseconds
- * Uses process.hrtime.bigint() for nanosecond precision
+ * Uses process.hrtime.bigint() for nanosecond precision,
+ * falling back to performance.now() on edge runtimes
  */
 export function hrTimeMs(): number {
-  return Number(process.hrtime.bigint()) / 1_000_000;
+  if (typeof process !== 'undefined' && typeof process.hrtime?.bigint === 'function') {
+    return Number(process.hrtime.bigint()) / 1_000_000;
+  }
+  return performance.now();
 }
 
 /**
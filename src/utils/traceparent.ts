@@ -0,0 +1,71 @@
+/**
+ * W3C Trace Context
+ * Parses and formats `traceparent` headers (https://www.w3.org/TR/trace-context/)
+ * 
+ *   traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+ *                ^^ ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^ ^^^^^^^^^^^^^^^^ ^^
+ *           version trace-id                         parent-id        flags
+ */
+
+import { isW3CSpanId, isW3CTraceId } from './ids.js';
+
+/**
+ * Parsed traceparent header
+ */
+export interface TraceParent {
+  traceId: string;
+  spanId: string;
+  traceFlags: string;
+}
+
+/**
+ * W3C context carried by a request: the caller's span, flags and vendor state
+ */
+export interface W3CTraceContext {
+  parentSpanId?: string;
+  traceFlags: string;
+  traceState?: string;
+}
+
+/**
+ * Default trace flags for new traces (sampled)
+ */
+export const DEFAULT_TRACE_FLAGS = '01';
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a traceparent header
+ * 
+ * @param header - Raw header value
+ * @returns Parsed context, or undefined if the header is invalid
+ */
+export function parseTraceparent(header: string | undefined): TraceParent | undefined {
+  if (!header) return undefined;
+  
+  const match = TRACEPARENT_PATTERN.exec(header.trim());
+  if (!match) return undefined;
+  
+  const [, version, traceId, spanId, traceFlags, rest] = match;
+  
+  if (version === 'ff') return undefined;
+  if (version === '00' && rest !== undefined) return undefined;
+  if (!isW3CTraceId(traceId) || !isW3CSpanId(spanId)) return undefined;
+  
+  return { traceId, spanId, traceFlags };
+}
+
+/**
+ * Format a version 00 traceparent header
+ * 
+ * @param traceId - 32 hex char trace ID
+ * @param spanId - 16 hex char span ID of the current span
+ * @param traceFlags - 2 hex char flags (default: sampled)
+ */
+export function formatTraceparent(
+  traceId: string,
+  spanId: string,
+  traceFlags: string = DEFAULT_TRACE_FLAGS
+): string {
+  return `00-${traceId}-${spanId}-${traceFlags}`;
+}
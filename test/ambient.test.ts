@@ -0,0 +1,130 @@
+/**
+ * Ambient Context Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import http from 'node:http';
+import express from 'express';
+import Fastify from 'fastify';
+import request from 'supertest';
+import { getCanon, useCanon, runWithCanon } from '../src/core/ambient.js';
+import { createCanonContext } from '../src/core/canon.js';
+import { canonExpress } from '../src/middleware/express.js';
+import { canonHttp } from '../src/middleware/http.js';
+import { canonFastify } from '../src/middleware/fastify.js';
+import { withCanon } from '../src/middleware/next.js';
+import type { CanonConfig, WideEvent } from '../src/types.js';
+
+/**
+ * Simulates a service layer that has no access to the request
+ */
+async function loadUser(id: string): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 5));
+  useCanon().set('user.id', id);
+}
+
+describe('Ambient Context', () => {
+  let emittedEvents: WideEvent[];
+  let config: CanonConfig;
+
+  beforeEach(() => {
+    emittedEvents = [];
+    config = {
+      service: 'test-service',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+      ambientContext: true,
+    };
+  });
+
+  describe('outside of a request', () => {
+    it('getCanon returns undefined', () => {
+      expect(getCanon()).toBeUndefined();
+    });
+
+    it('useCanon returns a no-op context', () => {
+      const canon = useCanon();
+
+      expect(() => canon.enrich({ a: 1 })).not.toThrow();
+      expect(() => canon.set('a.b', 1)).not.toThrow();
+      expect(() => canon.markError(new Error('x'))).not.toThrow();
+      expect(canon.get()).toEqual({});
+    });
+  });
+
+  describe('runWithCanon', () => {
+    it('exposes the context across async boundaries', async () => {
+      const { context } = createCanonContext(config, 'req_test', undefined, { method: 'GET', path: '/' });
+
+      await runWithCanon(context, () => loadUser('u123'));
+
+      expect((context.get() as any).user.id).toBe('u123');
+      expect(getCanon()).toBeUndefined();
+    });
+  });
+
+  describe('adapters', () => {
+    it('canonExpress enters the context when enabled', async () => {
+      const app = express();
+      app.use(canonExpress(config));
+      app.get('/test', async (_req, res) => {
+        await loadUser('u_express');
+        res.json({ ok: true });
+      });
+
+      await request(app).get('/test').expect(200);
+
+      expect((emittedEvents[0] as any).user.id).toBe('u_express');
+    });
+
+    it('canonExpress does not enter the context when disabled', async () => {
+      const app = express();
+      let seen: unknown = 'unset';
+      app.use(canonExpress({ ...config, ambientContext: false }));
+      app.get('/test', (_req, res) => {
+        seen = getCanon();
+        res.json({ ok: true });
+      });
+
+      await request(app).get('/test').expect(200);
+
+      expect(seen).toBeUndefined();
+    });
+
+    it('canonHttp enters the context when enabled', async () => {
+      const server = http.createServer(canonHttp(config)(async (_req, res) => {
+        await loadUser('u_http');
+        res.end('ok');
+      }));
+
+      await request(server).get('/test').expect(200);
+
+      expect((emittedEvents[0] as any).user.id).toBe('u_http');
+    });
+
+    it('canonFastify enters the context when enabled', async () => {
+      const app = Fastify();
+      await app.register(canonFastify(config));
+      app.get('/test', async () => {
+        await loadUser('u_fastify');
+        return { ok: true };
+      });
+
+      await app.inject({ method: 'GET', url: '/test' });
+      await app.close();
+
+      expect((emittedEvents[0] as any).user.id).toBe('u_fastify');
+    });
+
+    it('withCanon enters the context when enabled', async () => {
+      const GET = withCanon(async () => {
+        await loadUser('u_next');
+        return new Response('ok');
+      }, config);
+
+      await GET(new Request('http://localhost/test'), {});
+
+      expect((emittedEvents[0] as any).user.id).toBe('u_next');
+    });
+  });
+});
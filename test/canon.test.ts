@@ -209,6 +209,58 @@ describe('Canon Context', () => {
     });
   });
 
+  describe('sample annotation', () => {
+    it('stamps sample_rate and sample_reason on emitted events', () => {
+      const events: any[] = [];
+      const { emit } = createCanonContext(
+        {
+          ...baseConfig,
+          sample: () => ({ sampled: true, rate: 0.05, reason: 'random' }),
+          emit: (event) => events.push(event),
+        },
+        'req_test',
+        undefined,
+        { method: 'GET', path: '/test' }
+      );
+
+      emit('success', 200);
+
+      expect(events[0].sample_rate).toBe(0.05);
+      expect(events[0].sample_reason).toBe('random');
+    });
+
+    it('records boolean samplers as custom with rate 1', () => {
+      const events: any[] = [];
+      const { emit } = createCanonContext(
+        { ...baseConfig, emit: (event) => events.push(event) },
+        'req_test',
+        undefined,
+        { method: 'GET', path: '/test' }
+      );
+
+      emit('success', 200);
+
+      expect(events[0].sample_rate).toBe(1);
+      expect(events[0].sample_reason).toBe('custom');
+    });
+
+    it('records debug mode as reason debug', () => {
+      const events: any[] = [];
+      const { emit } = createCanonContext(
+        { ...baseConfig, sample: () => false, emit: (event) => events.push(event) },
+        'req_test',
+        undefined,
+        { method: 'GET', path: '/test' },
+        true
+      );
+
+      emit('success', 200);
+
+      expect(events[0].sample_rate).toBe(1);
+      expect(events[0].sample_reason).toBe('debug');
+    });
+  });
+
   describe('extractIds', () => {
     it('extracts IDs from headers when trustIncomingIds is true', () => {
       const headers = {
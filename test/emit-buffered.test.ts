@@ -0,0 +1,217 @@
+/**
+ * Buffered Emitter Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Writable } from 'node:stream';
+import { createBufferedEmitter } from '../src/utils/emit-buffered.js';
+import type { WideEvent } from '../src/types.js';
+
+function makeEvent(n: number): WideEvent {
+  return {
+    timestamp: '2024-01-15T10:30:00.000Z',
+    request_id: `req_${n}`,
+    service: 'test-service',
+    method: 'GET',
+    path: '/test',
+    status_code: 200,
+    duration_ms: 1,
+    outcome: 'success',
+  };
+}
+
+describe('Buffered Emitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('does not deliver synchronously', async () => {
+    const emit = vi.fn();
+    const emitter = createBufferedEmitter({ emit, handleSignals: false });
+
+    emitter(makeEvent(1));
+    expect(emit).not.toHaveBeenCalled();
+
+    await emitter.close();
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes in batches of at most maxBatch', async () => {
+    const batches: WideEvent[][] = [];
+    const emitter = createBufferedEmitter({
+      emitBatch: (events) => { batches.push(events); },
+      maxBatch: 3,
+      handleSignals: false,
+    });
+
+    for (let i = 0; i < 7; i++) emitter(makeEvent(i));
+    await emitter.close();
+
+    expect(batches.map(b => b.length)).toEqual([3, 3, 1]);
+    expect(emitter.stats()).toMatchObject({ emitted: 7, batches: 3, queued: 0 });
+  });
+
+  it('flushes on the configured interval', async () => {
+    vi.useFakeTimers();
+    const emit = vi.fn();
+    const emitter = createBufferedEmitter({ emit, flushIntervalMs: 50, handleSignals: false });
+
+    emitter(makeEvent(1));
+    await vi.advanceTimersByTimeAsync(60);
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    await emitter.close();
+    vi.useRealTimers();
+  });
+
+  it('drops and counts events beyond maxQueue', async () => {
+    const onDrop = vi.fn();
+    const emit = vi.fn();
+    const emitter = createBufferedEmitter({ emit, maxQueue: 2, maxBatch: 10, onDrop, handleSignals: false });
+
+    emitter(makeEvent(1));
+    emitter(makeEvent(2));
+    emitter(makeEvent(3));
+
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ request_id: 'req_3' }), 1);
+    await emitter.close();
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(emitter.stats().dropped).toBe(1);
+  });
+
+  it('waits for drain when the stream applies backpressure', async () => {
+    const chunks: string[] = [];
+    const stream = new Writable({
+      highWaterMark: 1,
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk.toString());
+        setTimeout(callback, 5);
+      },
+    });
+    const writeSpy = vi.spyOn(stream, 'write');
+    const emitter = createBufferedEmitter({ stream, maxBatch: 1, handleSignals: false });
+
+    for (let i = 0; i < 3; i++) emitter(makeEvent(i));
+    await emitter.flush();
+
+    expect(writeSpy).toHaveBeenCalledTimes(3);
+    expect(chunks).toHaveLength(3);
+    expect(JSON.parse(chunks[2]).request_id).toBe('req_2');
+  });
+
+  it('fails the batch instead of hanging when the stream errors', async () => {
+    const stream = new Writable({
+      highWaterMark: 1,
+      write(_chunk, _encoding, callback) {
+        setTimeout(() => callback(new Error('disk full')), 5);
+      },
+    });
+    stream.on('error', () => {});
+    const emitter = createBufferedEmitter({ stream, maxBatch: 1, handleSignals: false });
+
+    emitter(makeEvent(1));
+    await emitter.flush();
+    emitter(makeEvent(2));
+    await emitter.close();
+
+    expect(emitter.stats()).toMatchObject({ emitted: 0, failed: 2 });
+  });
+
+  it('fails the batch when the stream is closed or destroyed', async () => {
+    const stream = new Writable({
+      highWaterMark: 1,
+      write(_chunk, _encoding, callback) {
+        setTimeout(callback, 50);
+      },
+    });
+    const emitter = createBufferedEmitter({ stream, maxBatch: 1, handleSignals: false });
+
+    emitter(makeEvent(1));
+    const flushed = emitter.flush();
+    setTimeout(() => stream.destroy(), 5);
+    await flushed;
+    emitter(makeEvent(2));
+    await emitter.close();
+
+    expect(emitter.stats()).toMatchObject({ emitted: 0, failed: 2 });
+  });
+
+  it('delivers the rest of a batch when one event throws', async () => {
+    const delivered: string[] = [];
+    const emitter = createBufferedEmitter({
+      emit: (event) => {
+        if (event.request_id === 'req_1') throw new Error('bad event');
+        delivered.push(event.request_id);
+      },
+      handleSignals: false,
+    });
+
+    for (let i = 0; i < 3; i++) emitter(makeEvent(i));
+    await emitter.close();
+
+    expect(delivered).toEqual(['req_0', 'req_2']);
+    expect(emitter.stats()).toMatchObject({ emitted: 2, failed: 1, batches: 1 });
+  });
+
+  it('counts failed batches without throwing', async () => {
+    const emitter = createBufferedEmitter({
+      emitBatch: () => { throw new Error('sink down'); },
+      handleSignals: false,
+    });
+
+    emitter(makeEvent(1));
+    await expect(emitter.close()).resolves.toBeUndefined();
+    expect(emitter.stats().failed).toBe(1);
+  });
+
+  it('loses no events on graceful shutdown via SIGTERM', async () => {
+    const delivered: string[] = [];
+    const appShutdown = vi.fn();
+    process.on('SIGTERM', appShutdown);
+    const listenerCount = process.listenerCount('SIGTERM');
+
+    const emitter = createBufferedEmitter({
+      emitBatch: async (events) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        delivered.push(...events.map(e => e.request_id));
+      },
+      maxBatch: 10,
+      flushIntervalMs: 60_000,
+    });
+
+    for (let i = 0; i < 25; i++) emitter(makeEvent(i));
+    process.emit('SIGTERM');
+    await emitter.flush();
+    const remainingListeners = process.listenerCount('SIGTERM');
+    process.removeListener('SIGTERM', appShutdown);
+
+    expect(delivered).toHaveLength(25);
+    expect(appShutdown).toHaveBeenCalled();
+    expect(remainingListeners).toBe(listenerCount);
+  });
+
+  it('shares one set of process listeners across emitters', async () => {
+    const sigtermListeners = process.listenerCount('SIGTERM');
+    const beforeExitListeners = process.listenerCount('beforeExit');
+
+    const emitters = [1, 2, 3].map(() => createBufferedEmitter({ emit: vi.fn() }));
+    const attached = [process.listenerCount('SIGTERM'), process.listenerCount('beforeExit')];
+    await Promise.all(emitters.map(emitter => emitter.close()));
+
+    expect(attached).toEqual([sigtermListeners + 1, beforeExitListeners + 1]);
+    expect(process.listenerCount('SIGTERM')).toBe(sigtermListeners);
+    expect(process.listenerCount('beforeExit')).toBe(beforeExitListeners);
+  });
+
+  it('flushes on beforeExit', async () => {
+    const emit = vi.fn();
+    const emitter = createBufferedEmitter({ emit, flushIntervalMs: 60_000 });
+
+    emitter(makeEvent(1));
+    process.emit('beforeExit', 0);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(emit).toHaveBeenCalledTimes(1);
+    await emitter.close();
+  });
+});
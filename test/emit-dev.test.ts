@@ -0,0 +1,122 @@
+/**
+ * Development Console Emitter Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { canonJob } from '../src/core/job.js';
+import { createDevEmitter, formatDevEvent } from '../src/utils/emit-dev.js';
+import type { WideEvent } from '../src/types.js';
+
+function makeEvent(overrides: Partial<WideEvent> = {}): WideEvent {
+  return {
+    timestamp: '2024-01-15T10:30:00.000Z',
+    request_id: 'req_abc',
+    service: 'api',
+    method: 'GET',
+    path: '/orders/42',
+    route: '/orders/:id',
+    status_code: 200,
+    duration_ms: 34,
+    outcome: 'success',
+    ...overrides,
+  };
+}
+
+describe('Dev Emitter', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prints one summary line per request', () => {
+    expect(formatDevEvent(makeEvent())).toBe('GET /orders/:id 200 34ms req_abc');
+  });
+
+  it('falls back to the path and marks aborted requests', () => {
+    const line = formatDevEvent(makeEvent({ route: undefined, status_code: 499, outcome: 'aborted' }));
+
+    expect(line).toBe('GET /orders/42 499 aborted 34ms req_abc');
+  });
+
+  it('summarizes jobs', () => {
+    const event = makeEvent({ method: undefined, path: undefined, status_code: undefined, job: { name: 'send-invoice', attempt: 1 } } as any);
+
+    expect(formatDevEvent(event)).toBe('job send-invoice success 34ms req_abc');
+  });
+
+  it('shows the normalized error and stack frames', () => {
+    const output = formatDevEvent(makeEvent({
+      status_code: 502,
+      outcome: 'error',
+      error: {
+        type: 'PaymentError',
+        message: 'Card declined',
+        code: 'CARD_DECLINED',
+        retriable: true,
+        stack: 'PaymentError: Card declined\n    at charge (/app/pay.ts:10:5)\n    at handler (/app/orders.ts:3:1)',
+      },
+    }));
+
+    expect(output.split('\n')).toEqual([
+      'GET /orders/:id 502 34ms req_abc',
+      '  PaymentError: Card declined (CARD_DECLINED, retriable)',
+      '    at charge (/app/pay.ts:10:5)',
+      '    at handler (/app/orders.ts:3:1)',
+    ]);
+  });
+
+  it('expands enriched fields as a tree on demand', () => {
+    const event = makeEvent({ user: { id: 'u_1', plan: 'pro' }, cart: { items: 3, skus: ['a', 'b'] }, trace_id: 'trace_1' });
+
+    expect(formatDevEvent(event).split('\n')).toHaveLength(1);
+    expect(formatDevEvent(event, { expand: true }).split('\n').slice(1)).toEqual([
+      '  user',
+      '    id: "u_1"',
+      '    plan: "pro"',
+      '  cart',
+      '    items: 3',
+      '    skus: ["a","b"]',
+    ]);
+    expect(formatDevEvent(event, { expand: (e) => e.outcome === 'error' }).split('\n')).toHaveLength(1);
+  });
+
+  it('colors the status code when enabled', () => {
+    expect(formatDevEvent(makeEvent(), { colors: true })).toContain('\x1b[32m200\x1b[0m');
+    expect(formatDevEvent(makeEvent({ status_code: 404 }), { colors: true })).toContain('\x1b[33m404\x1b[0m');
+    expect(formatDevEvent(makeEvent({ status_code: 500, outcome: 'error' }), { colors: true })).toContain('\x1b[31m500\x1b[0m');
+  });
+
+  it('disables colors when the stream is not a TTY', () => {
+    const chunks: string[] = [];
+    const emit = createDevEmitter({ stream: { write: (chunk: string) => chunks.push(chunk), isTTY: false } });
+
+    emit(makeEvent());
+
+    expect(chunks).toEqual(['GET /orders/:id 200 34ms req_abc\n']);
+  });
+
+  it('uses colors on a TTY unless NO_COLOR is set', () => {
+    const chunks: string[] = [];
+    const stream = { write: (chunk: string) => chunks.push(chunk), isTTY: true };
+
+    vi.stubEnv('NO_COLOR', '');
+    createDevEmitter({ stream })(makeEvent());
+    vi.stubEnv('NO_COLOR', '1');
+    createDevEmitter({ stream })(makeEvent());
+
+    expect(chunks[0]).toContain('\x1b[');
+    expect(chunks[1]).not.toContain('\x1b[');
+  });
+
+  it('prints stacks captured with errorStack', async () => {
+    const chunks: string[] = [];
+    const emit = createDevEmitter({ stream: { write: (chunk: string) => chunks.push(chunk) } });
+
+    await expect(canonJob('sync', { service: 'worker', emit, errorStack: true }, () => {
+      throw new TypeError('boom');
+    })).rejects.toThrow('boom');
+
+    const lines = chunks[0].split('\n');
+    expect(lines[1]).toBe('  TypeError: boom');
+    expect(lines[2]).toMatch(/^ {4}at /);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * File Emitter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { createFileEmitter } from '../src/utils/emit-file.js';
+import type { WideEvent } from '../src/types.js';
+
+function makeEvent(n: number): WideEvent {
+  return {
+    timestamp: '2024-01-15T10:30:00.000Z',
+    request_id: `req_${n}`,
+    service: 'test-service',
+    method: 'GET',
+    path: '/test',
+    status_code: 200,
+    duration_ms: 1,
+    outcome: 'success',
+  };
+}
+
+function parseLines(content: string): WideEvent[] {
+  return content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe('File Emitter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'canon-file-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends events as NDJSON', async () => {
+    const emit = createFileEmitter({ dir, handleSignals: false });
+
+    emit(makeEvent(1));
+    emit(makeEvent(2));
+    await emit.close();
+
+    const events = parseLines(await readFile(join(dir, 'canon.ndjson'), 'utf8'));
+    expect(events.map(e => e.request_id)).toEqual(['req_1', 'req_2']);
+  });
+
+  it('creates the directory if needed', async () => {
+    const nested = join(dir, 'logs', 'canon');
+    const emit = createFileEmitter({ dir: nested, fileName: 'events', handleSignals: false });
+
+    emit(makeEvent(1));
+    await emit.close();
+
+    expect(await readdir(nested)).toEqual(['events.ndjson']);
+  });
+
+  it('terminates a torn line left by a previous process', async () => {
+    await writeFile(join(dir, 'canon.ndjson'), '{"request_id":"req_0"}\n{"request_id":"re');
+
+    const emit = createFileEmitter({ dir, handleSignals: false });
+    emit(makeEvent(1));
+    await emit.close();
+
+    const lines = (await readFile(join(dir, 'canon.ndjson'), 'utf8')).split('\n');
+    expect(lines[1]).toBe('{"request_id":"re');
+    expect(JSON.parse(lines[2]).request_id).toBe('req_1');
+  });
+
+  it('rotates when the file would exceed maxBytes', async () => {
+    const lineBytes = JSON.stringify(makeEvent(1)).length + 1;
+    const emit = createFileEmitter({ dir, maxBytes: lineBytes * 2, maxBatch: 1, handleSignals: false });
+
+    for (let i = 1; i <= 5; i++) {
+      emit(makeEvent(i));
+      await emit.flush();
+    }
+    await emit.close();
+
+    const files = (await readdir(dir)).sort();
+    expect(files).toHaveLength(3);
+    expect(files).toContain('canon.ndjson');
+
+    const all = await Promise.all(files.map(name => readFile(join(dir, name), 'utf8')));
+    const ids = all.flatMap(parseLines).map(e => e.request_id).sort();
+    expect(ids).toEqual(['req_1', 'req_2', 'req_3', 'req_4', 'req_5']);
+    expect(parseLines(await readFile(join(dir, 'canon.ndjson'), 'utf8'))).toHaveLength(1);
+  });
+
+  it('rotates by age', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const emit = createFileEmitter({ dir, maxAgeMs: 60_000, handleSignals: false });
+
+    emit(makeEvent(1));
+    await emit.flush();
+    vi.setSystemTime(Date.now() + 61_000);
+    emit(makeEvent(2));
+    await emit.close();
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(2);
+    expect(parseLines(await readFile(join(dir, 'canon.ndjson'), 'utf8'))[0].request_id).toBe('req_2');
+  });
+
+  it('counts the age of an existing file from before a restart', async () => {
+    const activePath = join(dir, 'canon.ndjson');
+    await writeFile(activePath, JSON.stringify(makeEvent(1)) + '\n');
+    const twoMinutesAgo = new Date(Date.now() - 120_000);
+    await utimes(activePath, twoMinutesAgo, twoMinutesAgo);
+    const emit = createFileEmitter({ dir, maxAgeMs: 60_000, handleSignals: false });
+
+    emit(makeEvent(2));
+    await emit.close();
+
+    expect(await readdir(dir)).toHaveLength(2);
+    expect(parseLines(await readFile(activePath, 'utf8')).map(e => e.request_id)).toEqual(['req_2']);
+  });
+
+  it('keeps appending to the active file when rotation fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-15T10:30:00.000Z'));
+    await mkdir(join(dir, 'canon-2024-01-15T10-30-00-000Z.ndjson', 'taken'), { recursive: true });
+    const onRotateError = vi.fn();
+    const emit = createFileEmitter({ dir, maxBytes: 1, maxBatch: 1, onRotateError, handleSignals: false });
+
+    emit(makeEvent(1));
+    await emit.flush();
+    emit(makeEvent(2));
+    await emit.close();
+
+    expect(onRotateError).toHaveBeenCalledTimes(1);
+    expect(emit.stats()).toMatchObject({ emitted: 2, failed: 0 });
+    const ids = parseLines(await readFile(join(dir, 'canon.ndjson'), 'utf8')).map(e => e.request_id);
+    expect(ids).toEqual(['req_1', 'req_2']);
+  });
+
+  it('refuses writes after close', async () => {
+    const emit = createFileEmitter({ dir, handleSignals: false });
+
+    emit(makeEvent(1));
+    await emit.close();
+    emit(makeEvent(2));
+    await emit.flush();
+
+    expect(emit.stats()).toMatchObject({ emitted: 1, failed: 1 });
+    expect(parseLines(await readFile(join(dir, 'canon.ndjson'), 'utf8'))).toHaveLength(1);
+  });
+
+  it('gzips rotated files', async () => {
+    const emit = createFileEmitter({ dir, maxBytes: 1, maxBatch: 1, compress: true, handleSignals: false });
+
+    emit(makeEvent(1));
+    await emit.flush();
+    emit(makeEvent(2));
+    await emit.close();
+
+    const rotated = (await readdir(dir)).filter(name => name !== 'canon.ndjson');
+    expect(rotated).toHaveLength(1);
+    expect(rotated[0]).toMatch(/^canon-.*\.ndjson\.gz$/);
+
+    const content = gunzipSync(await readFile(join(dir, rotated[0]))).toString('utf8');
+    expect(parseLines(content)[0].request_id).toBe('req_1');
+  });
+
+  it('keeps only the newest maxFiles rotated files', async () => {
+    await writeFile(join(dir, 'canon-audit.ndjson'), '');
+    const emit = createFileEmitter({ dir, maxBytes: 1, maxBatch: 1, maxFiles: 2, handleSignals: false });
+
+    for (let i = 1; i <= 5; i++) {
+      emit(makeEvent(i));
+      await emit.flush();
+    }
+    await emit.close();
+
+    const rotated = (await readdir(dir)).filter(name => /^canon-\d/.test(name));
+    expect(rotated).toHaveLength(2);
+
+    const ids = (await Promise.all(rotated.map(name => readFile(join(dir, name), 'utf8'))))
+      .flatMap(parseLines)
+      .map(e => e.request_id)
+      .sort();
+    expect(ids).toEqual(['req_3', 'req_4']);
+    expect(await readdir(dir)).toContain('canon-audit.ndjson');
+  });
+
+  it('counts failed writes', async () => {
+    await writeFile(join(dir, 'blocked'), '');
+    const emit = createFileEmitter({ dir: join(dir, 'blocked'), handleSignals: false });
+
+    emit(makeEvent(1));
+    await emit.close();
+
+    expect(emit.stats()).toMatchObject({ emitted: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Emit Guard Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createCanonContext, validateCanonConfig } from '../src/core/canon.js';
+import { getCanonStats, resetCanonStats } from '../src/core/stats.js';
+import { canonExpress } from '../src/middleware/express.js';
+import type { CanonConfig, EmitFunction, WideEvent } from '../src/types.js';
+
+describe('Emit Guard', () => {
+  let fallbackEvents: WideEvent[];
+  let config: CanonConfig;
+
+  const run = (overrides: Partial<CanonConfig> = {}) => {
+    const { emit } = createCanonContext(
+      { ...config, ...overrides },
+      'req_1',
+      'trace_1',
+      { method: 'GET', path: '/' }
+    );
+    emit('success', 200);
+  };
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    resetCanonStats();
+    fallbackEvents = [];
+    config = {
+      service: 'api',
+      sample: () => true,
+      fallbackEmit: (event) => fallbackEvents.push(event),
+    };
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a throwing emitter from breaking the response', async () => {
+    const app = express();
+    app.use(canonExpress({ service: 'api', emit: () => { throw new Error('sink down'); } }));
+    app.get('/test', (_req, res) => {
+      res.json({ ok: true });
+    });
+
+    await request(app).get('/test').expect(200);
+
+    expect(getCanonStats().emitterThrew).toBe(1);
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      expect.stringContaining('[canon] emit failed for request')
+    );
+  });
+
+  it('writes failed events to stderr by default', () => {
+    run({ emit: () => { throw new Error('sink down'); }, fallbackEmit: undefined });
+
+    const lines = vi.mocked(process.stderr.write).mock.calls.map(([line]) => String(line));
+    const fallbackLine = lines.find(line => line.startsWith('{'));
+    expect(JSON.parse(fallbackLine!)).toMatchObject({ request_id: 'req_1', service: 'api' });
+  });
+
+  it('retries before falling back', () => {
+    vi.useFakeTimers();
+    const emit = vi.fn()
+      .mockImplementationOnce(() => { throw new Error('flaky'); })
+      .mockImplementationOnce(() => {});
+
+    run({ emit, emitGuard: { retries: 1 } });
+    vi.runAllTimers();
+
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(fallbackEvents).toHaveLength(0);
+    expect(getCanonStats()).toMatchObject({ emitted: 1, emitterThrew: 0 });
+  });
+
+  it('sends the event to fallbackEmit once retries are exhausted', () => {
+    vi.useFakeTimers();
+    const emit = vi.fn(() => { throw new Error('sink down'); });
+
+    run({ emit, emitGuard: { retries: 2 } });
+    vi.runAllTimers();
+
+    expect(emit).toHaveBeenCalledTimes(3);
+    expect(fallbackEvents).toHaveLength(1);
+    expect(fallbackEvents[0].request_id).toBe('req_1');
+  });
+
+  it('backs off exponentially between retries', () => {
+    vi.useFakeTimers();
+    const emit = vi.fn(() => { throw new Error('sink down'); });
+
+    run({ emit, emitGuard: { retries: 2, retryBaseMs: 100 } });
+    expect(emit).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(99);
+    expect(emit).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    expect(emit).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(199);
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(fallbackEvents).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect(emit).toHaveBeenCalledTimes(3);
+    expect(fallbackEvents).toHaveLength(1);
+  });
+
+  it('handles rejected promises from async emitters', async () => {
+    const emit: EmitFunction = async () => {
+      throw new Error('async sink down');
+    };
+
+    run({ emit });
+    await flushPromises();
+
+    expect(fallbackEvents).toHaveLength(1);
+    expect(getCanonStats()).toMatchObject({ emitted: 0, emitterThrew: 1 });
+  });
+
+  it('counts async emits once they resolve', async () => {
+    const emitted: WideEvent[] = [];
+    const emit: EmitFunction = async (event) => {
+      await Promise.resolve();
+      emitted.push(event);
+    };
+
+    run({ emit });
+    expect(getCanonStats().emitted).toBe(0);
+
+    await flushPromises();
+    expect(emitted).toHaveLength(1);
+    expect(getCanonStats().emitted).toBe(1);
+  });
+
+  it('opens the circuit after consecutive failures and retries after the cooldown', () => {
+    vi.useFakeTimers();
+    let healthy = false;
+    const emit = vi.fn(() => {
+      if (!healthy) throw new Error('sink down');
+    });
+    const guarded: Partial<CanonConfig> = { emit, emitGuard: { failureThreshold: 2, cooldownMs: 1000 } };
+
+    run(guarded);
+    run(guarded);
+    run(guarded);
+    run(guarded);
+
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect(fallbackEvents).toHaveLength(4);
+    expect(getCanonStats()).toMatchObject({ emitterThrew: 2, circuitOpen: 2 });
+
+    vi.advanceTimersByTime(1000);
+    run(guarded);
+    expect(emit).toHaveBeenCalledTimes(3);
+    run(guarded);
+    expect(emit).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(1000);
+    healthy = true;
+    run(guarded);
+    run(guarded);
+    expect(emit).toHaveBeenCalledTimes(5);
+    expect(getCanonStats().emitted).toBe(2);
+  });
+
+  it('lets a single probe through after the cooldown and stays open until it succeeds', async () => {
+    vi.useFakeTimers();
+    let settleProbe: (() => void) | undefined;
+    const emit = vi.fn((): Promise<void> => {
+      if (emit.mock.calls.length <= 2) return Promise.reject(new Error('sink down'));
+      return new Promise<void>(resolve => { settleProbe = resolve; });
+    });
+    const guarded: Partial<CanonConfig> = { emit, emitGuard: { failureThreshold: 2, cooldownMs: 1000 } };
+
+    run(guarded);
+    run(guarded);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getCanonStats().emitterThrew).toBe(2);
+
+    run(guarded);
+    run(guarded);
+    run(guarded);
+    expect(emit).toHaveBeenCalledTimes(3);
+    expect(getCanonStats().circuitOpen).toBe(2);
+
+    settleProbe?.();
+    await vi.advanceTimersByTimeAsync(0);
+    run(guarded);
+    expect(emit).toHaveBeenCalledTimes(4);
+  });
+
+  it('survives a failing fallback', () => {
+    expect(() => run({
+      emit: () => { throw new Error('sink down'); },
+      fallbackEmit: () => { throw new Error('fallback down'); },
+    })).not.toThrow();
+
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      expect.stringContaining('[canon] fallbackEmit failed for request req_1: fallback down')
+    );
+  });
+
+  it('rejects invalid emitGuard options', () => {
+    expect(() => validateCanonConfig({ service: 'api', emitGuard: { retries: -1 } }))
+      .toThrow('[canon] emitGuard.retries must be a non-negative integer');
+    expect(() => validateCanonConfig({ service: 'api', emitGuard: { failureThreshold: 0 } }))
+      .toThrow('[canon] emitGuard.failureThreshold must be a positive integer');
+    expect(() => validateCanonConfig({ service: 'api', emitGuard: { cooldownMs: -5 } }))
+      .toThrow('[canon] emitGuard.cooldownMs must be a non-negative number');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * OTLP Log Emitter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createOtlpLogEmitter, toOtlpLogsPayload } from '../src/utils/emit-otlp.js';
+import type { WideEvent } from '../src/types.js';
+
+const baseEvent: WideEvent = {
+  timestamp: '2024-01-15T10:30:00.000Z',
+  request_id: 'req_test123',
+  trace_id: '4bf92f3577b34da6a3ce929d0e0e4736',
+  service: 'checkout',
+  version: '1.2.3',
+  deployment_id: 'dep_42',
+  region: 'eu-west-1',
+  method: 'POST',
+  path: '/orders/123',
+  route: '/orders/:id',
+  status_code: 201,
+  duration_ms: 12.5,
+  outcome: 'success',
+  user: { id: 'u123', premium: true },
+};
+
+describe('OTLP Log Emitter', () => {
+  describe('toOtlpLogsPayload', () => {
+    it('maps service metadata to resource attributes', () => {
+      const payload = toOtlpLogsPayload([baseEvent], { 'deployment.environment': 'prod' });
+      const resource = payload.resourceLogs[0].resource.attributes;
+
+      expect(resource).toEqual(expect.arrayContaining([
+        { key: 'service.name', value: { stringValue: 'checkout' } },
+        { key: 'service.version', value: { stringValue: '1.2.3' } },
+        { key: 'deployment.id', value: { stringValue: 'dep_42' } },
+        { key: 'cloud.region', value: { stringValue: 'eu-west-1' } },
+        { key: 'deployment.environment', value: { stringValue: 'prod' } },
+      ]));
+    });
+
+    it('maps trace_id, timestamp and flattened attributes onto the record', () => {
+      const record = toOtlpLogsPayload([baseEvent]).resourceLogs[0].scopeLogs[0].logRecords[0];
+
+      expect(record.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+      expect(record.timeUnixNano).toBe('1705314600000000000');
+      expect(record.body).toEqual({ stringValue: 'POST /orders/:id 201' });
+      expect(record.attributes).toEqual(expect.arrayContaining([
+        { key: 'user.id', value: { stringValue: 'u123' } },
+        { key: 'user.premium', value: { boolValue: true } },
+        { key: 'status_code', value: { intValue: '201' } },
+        { key: 'duration_ms', value: { doubleValue: 12.5 } },
+      ]));
+      expect(record.attributes.map(a => a.key)).not.toContain('service');
+      expect(record.attributes.map(a => a.key)).not.toContain('trace_id');
+    });
+
+    it('keeps non-W3C trace IDs as an attribute', () => {
+      const record = toOtlpLogsPayload([{ ...baseEvent, trace_id: 'trace_abc' }])
+        .resourceLogs[0].scopeLogs[0].logRecords[0];
+
+      expect(record.traceId).toBeUndefined();
+      expect(record.attributes).toContainEqual({ key: 'trace_id', value: { stringValue: 'trace_abc' } });
+    });
+
+    it('maps outcome and status code to severity', () => {
+      const severities = toOtlpLogsPayload([
+        baseEvent,
+        { ...baseEvent, status_code: 404 },
+        { ...baseEvent, outcome: 'aborted', status_code: 499 },
+        { ...baseEvent, outcome: 'error', status_code: 500 },
+      ]).resourceLogs[0].scopeLogs[0].logRecords.map(r => r.severityText);
+
+      expect(severities).toEqual(['INFO', 'WARN', 'WARN', 'ERROR']);
+    });
+
+    it('groups events by resource', () => {
+      const payload = toOtlpLogsPayload([baseEvent, { ...baseEvent, service: 'billing' }, baseEvent]);
+
+      expect(payload.resourceLogs).toHaveLength(2);
+      expect(payload.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(2);
+    });
+  });
+
+  describe('createOtlpLogEmitter', () => {
+    let server: http.Server;
+    let endpoint: string;
+    let requests: Array<{ headers: http.IncomingHttpHeaders; body: any }>;
+    let responses: number[];
+
+    beforeEach(async () => {
+      requests = [];
+      responses = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          requests.push({ headers: req.headers, body: JSON.parse(body) });
+          res.statusCode = responses.shift() ?? 200;
+          res.end('{}');
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/logs`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('posts batched OTLP JSON with configured headers', async () => {
+      const emit = createOtlpLogEmitter({
+        endpoint,
+        headers: { authorization: 'Bearer token' },
+        maxBatch: 10,
+        handleSignals: false,
+      });
+
+      emit(baseEvent);
+      emit({ ...baseEvent, request_id: 'req_2' });
+      await emit.close();
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(requests[0].headers.authorization).toBe('Bearer token');
+      expect(requests[0].body.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(2);
+    });
+
+    it('retries retriable failures with backoff', async () => {
+      responses = [503, 429];
+      const emit = createOtlpLogEmitter({ endpoint, retryBaseMs: 1, handleSignals: false });
+
+      emit(baseEvent);
+      await emit.close();
+
+      expect(requests).toHaveLength(3);
+      expect(emit.stats()).toMatchObject({ emitted: 1, failed: 0 });
+    });
+
+    it('gives up on non-retriable failures', async () => {
+      responses = [400];
+      const emit = createOtlpLogEmitter({ endpoint, retryBaseMs: 1, handleSignals: false });
+
+      emit(baseEvent);
+      await emit.close();
+
+      expect(requests).toHaveLength(1);
+      expect(emit.stats()).toMatchObject({ emitted: 0, failed: 1 });
+    });
+
+    it('stops after maxRetries', async () => {
+      responses = [503, 503, 503];
+      const emit = createOtlpLogEmitter({ endpoint, maxRetries: 2, retryBaseMs: 1, handleSignals: false });
+
+      emit(baseEvent);
+      await emit.close();
+
+      expect(requests).toHaveLength(3);
+      expect(emit.stats().failed).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Fastify Plugin Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import Fastify, { FastifyInstance } from 'fastify';
+import { canonFastify } from '../src/middleware/fastify.js';
+import type { CanonConfig, WideEvent } from '../src/types.js';
+
+describe('Fastify Plugin', () => {
+  let app: FastifyInstance;
+  let emittedEvents: WideEvent[];
+  let config: CanonConfig;
+
+  beforeEach(() => {
+    emittedEvents = [];
+    config = {
+      service: 'test-service',
+      version: '1.0.0',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+    };
+    app = Fastify();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.restoreAllMocks();
+  });
+
+  describe('basic functionality', () => {
+    it('emits exactly once on successful request', async () => {
+      await app.register(canonFastify(config));
+      app.get('/test', async () => ({ ok: true }));
+
+      const response = await app.inject({ method: 'GET', url: '/test' });
+
+      expect(response.statusCode).toBe(200);
+      expect(emittedEvents).toHaveLength(1);
+      expect(emittedEvents[0].status_code).toBe(200);
+      expect(emittedEvents[0].outcome).toBe('success');
+    });
+
+    it('includes required fields and route template', async () => {
+      await app.register(canonFastify(config));
+      app.get('/users/:id', async () => ({ ok: true }));
+
+      await app.inject({ method: 'GET', url: '/users/123?expand=true' });
+
+      const event = emittedEvents[0];
+      expect(event.request_id).toMatch(/^req_[a-z2-7]+$/);
+      expect(event.service).toBe('test-service');
+      expect(event.method).toBe('GET');
+      expect(event.path).toBe('/users/123');
+      expect(event.route).toBe('/users/:id');
+      expect(event.duration_ms).toBeGreaterThanOrEqual(0);
+    });
+
+    it('propagates request_id and trace_id in response headers', async () => {
+      await app.register(canonFastify(config));
+      app.get('/test', async () => ({ ok: true }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'x-request-id': 'custom-request-id' },
+      });
+
+      expect(response.headers['x-request-id']).toBe('custom-request-id');
+      expect(response.headers['x-trace-id']).toBeDefined();
+      expect(emittedEvents[0].request_id).toBe('custom-request-id');
+    });
+
+    it('allows handlers to enrich events', async () => {
+      await app.register(canonFastify(config));
+      app.get('/test', async (request) => {
+        request.canon.enrich({ user: { id: 'u123' } });
+        request.canon.set('payment.provider', 'stripe');
+        return { ok: true };
+      });
+
+      await app.inject({ method: 'GET', url: '/test' });
+
+      expect((emittedEvents[0] as any).user).toEqual({ id: 'u123' });
+      expect((emittedEvents[0] as any).payment.provider).toBe('stripe');
+    });
+  });
+
+  describe('error handling', () => {
+    it('captures errors thrown by handlers', async () => {
+      await app.register(canonFastify(config));
+      app.get('/error', async () => {
+        throw new Error('Test error');
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/error' });
+
+      expect(response.statusCode).toBe(500);
+      expect(emittedEvents).toHaveLength(1);
+      expect(emittedEvents[0].outcome).toBe('error');
+      expect(emittedEvents[0].error?.type).toBe('Error');
+      expect(emittedEvents[0].error?.message).toBe('Test error');
+    });
+
+    it('sets outcome to error for 5xx status codes', async () => {
+      await app.register(canonFastify(config));
+      app.get('/error', async (_request, reply) => {
+        reply.code(503);
+        return { error: 'Service unavailable' };
+      });
+
+      await app.inject({ method: 'GET', url: '/error' });
+
+      expect(emittedEvents[0].outcome).toBe('error');
+      expect(emittedEvents[0].status_code).toBe(503);
+    });
+  });
+
+  describe('abort handling', () => {
+    it('emits aborted event with status 499 when the request is aborted', async () => {
+      await app.register(canonFastify(config));
+      app.get('/abort', (_request, reply) => {
+        setTimeout(() => reply.raw.destroy(), 10);
+      });
+
+      await app.listen({ port: 0 });
+      const port = (app.server.address() as any).port;
+
+      const req = http.request({ hostname: 'localhost', port, path: '/abort', method: 'GET' });
+      req.on('error', () => {});
+      req.end();
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(emittedEvents).toHaveLength(1);
+      expect(emittedEvents[0].outcome).toBe('aborted');
+      expect(emittedEvents[0].status_code).toBe(499);
+    });
+  });
+
+  describe('ignorePaths', () => {
+    it('prevents emission for ignored paths', async () => {
+      await app.register(canonFastify({ ...config, ignorePaths: ['/health'] }));
+      app.get('/health', async () => ({ ok: true }));
+      app.get('/test', async () => ({ ok: true }));
+
+      await app.inject({ method: 'GET', url: '/health' });
+      await app.inject({ method: 'GET', url: '/test' });
+
+      expect(emittedEvents).toHaveLength(1);
+      expect(emittedEvents[0].path).toBe('/test');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Node.js HTTP Adapter Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import request from 'supertest';
+import { canonHttp } from '../src/middleware/http.js';
+import type { CanonConfig, WideEvent } from '../src/types.js';
+
+describe('HTTP Adapter', () => {
+  let emittedEvents: WideEvent[];
+  let config: CanonConfig;
+
+  beforeEach(() => {
+    emittedEvents = [];
+    config = {
+      service: 'test-service',
+      version: '1.0.0',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('emits exactly once on successful request', async () => {
+    const server = http.createServer(canonHttp(config)((_req, res) => {
+      res.end('ok');
+    }));
+
+    await request(server).get('/test?x=1').expect(200);
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].status_code).toBe(200);
+    expect(emittedEvents[0].outcome).toBe('success');
+    expect(emittedEvents[0].method).toBe('GET');
+    expect(emittedEvents[0].path).toBe('/test');
+  });
+
+  it('attaches req.canon for enrichment', async () => {
+    const server = http.createServer(canonHttp(config)((req, res) => {
+      req.canon.enrich({ user: { id: 'u123' } });
+      req.canon.set('route', '/users/:id');
+      res.end('ok');
+    }));
+
+    await request(server).get('/users/123').expect(200);
+
+    expect((emittedEvents[0] as any).user).toEqual({ id: 'u123' });
+    expect(emittedEvents[0].route).toBe('/users/:id');
+  });
+
+  it('propagates request_id and trace_id in response headers', async () => {
+    const server = http.createServer(canonHttp(config)((_req, res) => {
+      res.end('ok');
+    }));
+
+    const response = await request(server)
+      .get('/test')
+      .set('x-request-id', 'custom-request-id')
+      .expect(200);
+
+    expect(response.headers['x-request-id']).toBe('custom-request-id');
+    expect(response.headers['x-trace-id']).toBeDefined();
+    expect(emittedEvents[0].request_id).toBe('custom-request-id');
+  });
+
+  it('captures thrown errors and responds with 500', async () => {
+    const server = http.createServer(canonHttp(config)(() => {
+      throw new Error('Sync error');
+    }));
+
+    await request(server).get('/error').expect(500);
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].outcome).toBe('error');
+    expect(emittedEvents[0].status_code).toBe(500);
+    expect(emittedEvents[0].error?.message).toBe('Sync error');
+  });
+
+  it('captures rejected promises from async handlers', async () => {
+    const server = http.createServer(canonHttp(config)(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      throw new Error('Async error');
+    }));
+
+    await request(server).get('/error').expect(500);
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].error?.message).toBe('Async error');
+  });
+
+  it('emits aborted event with status 499 when close fires before finish', async () => {
+    const server = http.createServer(canonHttp(config)((_req, res) => {
+      setTimeout(() => {
+        if (!res.writableEnded) {
+          res.destroy();
+        }
+      }, 10);
+    }));
+
+    server.listen(0);
+    const port = (server.address() as any).port;
+
+    const req = http.request({ hostname: 'localhost', port, path: '/abort', method: 'GET' });
+    req.on('error', () => {});
+    req.end();
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    server.close();
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].outcome).toBe('aborted');
+    expect(emittedEvents[0].status_code).toBe(499);
+  });
+
+  it('prevents emission for ignored paths', async () => {
+    const server = http.createServer(canonHttp({ ...config, ignorePaths: ['/health'] })((req, res) => {
+      req.canon.enrich({ user: { id: 'u_1' } });
+      res.end('ok');
+    }));
+
+    await request(server).get('/health').expect(200);
+    await request(server).get('/test').expect(200);
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].path).toBe('/test');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Job Runner Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { canonJob } from '../src/core/job.js';
+import { defineCanonSchema } from '../src/core/schema.js';
+import type { CanonConfig, WideEvent } from '../src/types.js';
+
+describe('Job Runner', () => {
+  let emittedEvents: WideEvent[];
+  let config: CanonConfig;
+
+  beforeEach(() => {
+    emittedEvents = [];
+    config = {
+      service: 'worker',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+    };
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('emits exactly one event per successful job', async () => {
+    const result = await canonJob('send-invoice', config, async (canon) => {
+      canon.set('invoice.id', 'inv_123');
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(emittedEvents).toHaveLength(1);
+
+    const event = emittedEvents[0] as any;
+    expect(event.job).toEqual({ name: 'send-invoice', attempt: 1 });
+    expect(event.invoice.id).toBe('inv_123');
+    expect(event.outcome).toBe('success');
+    expect(event.duration_ms).toBeGreaterThanOrEqual(0);
+    expect(event.request_id).toMatch(/^req_[a-z2-7]+$/);
+    expect(event.status_code).toBeUndefined();
+    expect(event.method).toBeUndefined();
+  });
+
+  it('accepts job options for attempt and IDs', async () => {
+    await canonJob(
+      { name: 'sync-users', attempt: 3, id: 'msg_1', traceId: 'trace_from_producer' },
+      config,
+      () => undefined
+    );
+
+    const event = emittedEvents[0] as any;
+    expect(event.job).toEqual({ name: 'sync-users', attempt: 3 });
+    expect(event.request_id).toBe('msg_1');
+    expect(event.trace_id).toBe('trace_from_producer');
+  });
+
+  it('normalizes and rethrows errors', async () => {
+    const err = new Error('Provider down') as Error & { code: string };
+    err.code = 'ETIMEDOUT';
+
+    await expect(canonJob('charge', config, async () => {
+      throw err;
+    })).rejects.toBe(err);
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].outcome).toBe('error');
+    expect(emittedEvents[0].error).toEqual({ type: 'Error', message: 'Provider down', code: 'ETIMEDOUT' });
+  });
+
+  it('validates job events without HTTP built-in fields', async () => {
+    await canonJob('cleanup', { ...config, strict: true }, () => undefined);
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(process.stderr.write).not.toHaveBeenCalled();
+  });
+
+  it('applies user schema requirements in job mode', async () => {
+    const schema = defineCanonSchema({ required: ['tenant.id'] });
+
+    await canonJob('cleanup', { ...config, schema, strict: true }, () => undefined);
+
+    expect(emittedEvents).toHaveLength(0);
+    const output = (process.stderr.write as any).mock.calls.flat().join('');
+    expect(output).toContain('tenant.id');
+    expect(output).not.toContain('status_code');
+  });
+});
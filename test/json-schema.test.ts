@@ -0,0 +1,244 @@
+/**
+ * JSON Schema Interop Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fromJsonSchema, toJsonSchema, JSON_SCHEMA_DIALECT } from '../src/core/json-schema.js';
+import type { JsonSchema } from '../src/core/json-schema.js';
+import { defineCanonSchema, validateSchema } from '../src/core/schema.js';
+import type { CanonSchema, WideEvent } from '../src/types.js';
+
+describe('JSON Schema', () => {
+  const schema = defineCanonSchema({
+    required: ['user.id'],
+    fields: {
+      'user.id': { type: 'string', cardinality: 'high' },
+      'user.email': { type: 'string', pii: true, redaction: 'hash', format: 'email' },
+      'user.plan': { type: 'string', enum: ['free', 'pro'], nullable: false },
+      'cart.total_cents': { type: 'number', integer: true, min: 0 },
+      'cart.items': {
+        type: 'array',
+        maxItems: 50,
+        items: { type: 'object', properties: { sku: { type: 'string', pattern: '^[A-Z]+$' } } },
+      },
+      'flags.*': { type: 'boolean' },
+    },
+  });
+
+  describe('toJsonSchema', () => {
+    it('expands dot-paths into nested properties and required', () => {
+      const doc = toJsonSchema(schema, { id: 'https://example.com/event.json', title: 'Checkout event' });
+
+      expect(doc.$schema).toBe(JSON_SCHEMA_DIALECT);
+      expect(doc.$id).toBe('https://example.com/event.json');
+      expect(doc.title).toBe('Checkout event');
+      expect(doc.type).toBe('object');
+      expect(doc.required).toEqual(expect.arrayContaining(['timestamp', 'method', 'status_code', 'user']));
+
+      const user = doc.properties?.user;
+      expect(user?.type).toBe('object');
+      expect(user?.required).toEqual(['id']);
+      expect(user?.properties?.id).toEqual({ type: ['string', 'null'], 'x-canon': { cardinality: 'high' } });
+    });
+
+    it('maps constraints to JSON Schema keywords', () => {
+      const doc = toJsonSchema(schema);
+      const user = doc.properties?.user?.properties;
+      const cart = doc.properties?.cart?.properties;
+
+      expect(user?.email).toEqual({
+        type: ['string', 'null'],
+        format: 'email',
+        'x-canon': { pii: true, redaction: 'hash' },
+      });
+      expect(user?.plan).toEqual({ type: 'string', enum: ['free', 'pro'] });
+      expect(cart?.total_cents).toEqual({ type: ['integer', 'null'], minimum: 0 });
+      expect(cart?.items).toEqual({
+        type: ['array', 'null'],
+        maxItems: 50,
+        items: {
+          type: ['object', 'null'],
+          properties: { sku: { type: ['string', 'null'], pattern: '^[A-Z]+$' } },
+        },
+      });
+      expect(doc.properties?.timestamp?.format).toBe('date-time');
+      expect(doc.properties?.outcome?.enum).toEqual(['success', 'error', 'aborted', null]);
+    });
+
+    it('maps wildcard segments to additionalProperties', () => {
+      const doc = toJsonSchema(schema);
+
+      expect(doc.properties?.flags?.additionalProperties).toEqual({ type: ['boolean', 'null'] });
+    });
+
+    it('maps wildcard segments under arrays to items', () => {
+      const doc = toJsonSchema(defineCanonSchema({
+        fields: {
+          'orders': { type: 'array' },
+          'orders.*.id': { type: 'string' },
+        },
+      }));
+
+      expect(doc.properties?.orders?.items).toEqual({
+        type: 'object',
+        properties: { id: { type: ['string', 'null'] } },
+      });
+    });
+
+    it('closes objects when unknownMode is deny', () => {
+      const doc = toJsonSchema(defineCanonSchema({
+        fields: { 'user.id': { type: 'string' } },
+        unknownMode: 'deny',
+      }));
+
+      expect(doc.additionalProperties).toBe(false);
+      expect(doc.properties?.user?.additionalProperties).toBe(false);
+      expect(doc.properties?.error?.additionalProperties).toBe(true);
+      expect(doc['x-canon']).toEqual({ unknownMode: 'deny' });
+    });
+
+    it('rejects RegExp patterns with flags', () => {
+      const flagged = defineCanonSchema({ fields: { 'user.code': { type: 'string', pattern: /^ab/i } } });
+
+      expect(() => toJsonSchema(flagged))
+        .toThrow('[canon] Cannot convert "user.code" to JSON Schema: pattern /^ab/i uses flags');
+    });
+
+    it('uses job required fields in job mode', () => {
+      const doc = toJsonSchema(defineCanonSchema({ mode: 'job' }));
+
+      expect(doc.required).not.toContain('method');
+      expect(doc.properties?.job?.required).toEqual(['name', 'attempt']);
+      expect(doc['x-canon']).toEqual({ mode: 'job', unknownMode: 'allow' });
+    });
+  });
+
+  describe('fromJsonSchema', () => {
+    it('round-trips a Canon schema', () => {
+      const imported = fromJsonSchema(toJsonSchema(schema));
+
+      expect(imported.required).toEqual(['user.id']);
+      expect(imported.unknownMode).toBe('allow');
+      expect(imported.fields['user.email']).toEqual(schema.fields['user.email']);
+      expect(imported.fields['user.plan']).toEqual(schema.fields['user.plan']);
+      expect(imported.fields['cart.total_cents']).toEqual(schema.fields['cart.total_cents']);
+      expect(imported.fields['cart.items']).toEqual(schema.fields['cart.items']);
+      expect(imported.fields['flags.*']).toEqual(schema.fields['flags.*']);
+      expect(imported.fields['status_code']).toEqual(schema.fields['status_code']);
+      expect(imported.fields['error']).toEqual(schema.fields['error']);
+      expect(imported.fields['user']).toBeUndefined();
+    });
+
+    it('round-trips RegExp patterns without flags', () => {
+      const original = defineCanonSchema({ fields: { 'user.code': { type: 'string', pattern: /^ab$/ } } });
+      const imported = fromJsonSchema(toJsonSchema(original));
+
+      for (const code of ['ab', 'AB', 'abc']) {
+        const event = { user: { code } } as Partial<WideEvent>;
+        const warnings = (schema: CanonSchema) =>
+          validateSchema(event, schema).warnings.filter(warning => warning.includes('user.code'));
+        expect(warnings(imported)).toEqual(warnings(original));
+      }
+      expect(imported.fields['user.code']).toEqual({ type: 'string', pattern: '^ab$' });
+    });
+
+    it('imports a hand-written document', () => {
+      const doc: JsonSchema = {
+        $schema: JSON_SCHEMA_DIALECT,
+        type: 'object',
+        required: ['order'],
+        properties: {
+          order: {
+            type: 'object',
+            required: ['id'],
+            description: 'Order being placed',
+            properties: {
+              id: { type: 'string', format: 'uuid' },
+              status: { enum: ['open', 'paid'] },
+              coupon: { type: ['string', 'null'], maxLength: 16 },
+            },
+          },
+          tags: { type: 'object', additionalProperties: { type: 'string' } },
+        },
+        additionalProperties: false,
+      };
+
+      const imported = fromJsonSchema(doc);
+
+      expect(imported.required).toEqual(['order.id']);
+      expect(imported.unknownMode).toBe('deny');
+      expect(imported.fields['order.id']).toEqual({ type: 'string', format: 'uuid', nullable: false });
+      expect(imported.fields['order.status']).toEqual({ type: 'string', enum: ['open', 'paid'], nullable: false });
+      expect(imported.fields['order.coupon']).toEqual({ type: 'string', maxLength: 16 });
+      expect(imported.fields['tags.*']).toEqual({ type: 'string', nullable: false });
+      expect(imported.fields['order']).toBeUndefined();
+    });
+
+    it('keeps nullable objects with children as fields', () => {
+      const imported = fromJsonSchema({
+        type: 'object',
+        properties: {
+          shipping: { type: ['object', 'null'], properties: { city: { type: 'string' } } },
+        },
+      });
+
+      expect(imported.fields['shipping']).toEqual({ type: 'object' });
+      expect(imported.fields['shipping.city']).toEqual({ type: 'string', nullable: false });
+    });
+
+    it('keeps open objects with children as fields', () => {
+      const imported = fromJsonSchema({
+        type: 'object',
+        properties: {
+          context: { type: 'object', additionalProperties: true, properties: { tenant: { type: 'string' } } },
+        },
+      });
+
+      expect(imported.fields['context']).toEqual({ type: 'object', nullable: false, additionalProperties: true });
+      expect(imported.fields['context.tenant']).toEqual({ type: 'string', nullable: false });
+    });
+
+    it('skips untyped properties', () => {
+      const imported = fromJsonSchema({ type: 'object', properties: { meta: { description: 'anything' } } });
+
+      expect(imported.fields['meta']).toBeUndefined();
+    });
+
+    it('validates events like the original schema', () => {
+      const imported = fromJsonSchema(toJsonSchema(schema));
+      const event: Partial<WideEvent> = {
+        timestamp: new Date().toISOString(),
+        request_id: 'req_1',
+        service: 'api',
+        method: 'GET',
+        path: '/',
+        status_code: 200,
+        duration_ms: 5,
+        outcome: 'success',
+        user: { id: 'u_1', plan: 'gold' },
+        cart: { items: [{ sku: 'abc' }] },
+      };
+
+      expect(validateSchema(event, imported, true).errors).toEqual(validateSchema(event, schema, true).errors);
+      expect(validateSchema(event, imported, true).errors).toHaveLength(2);
+    });
+
+    it('throws on composition keywords', () => {
+      expect(() => fromJsonSchema({
+        type: 'object',
+        properties: { user: { $ref: '#/$defs/user' } },
+      })).toThrow('[canon] Unsupported JSON Schema at "user": "$ref" is not supported');
+    });
+
+    it('throws on multiple non-null types', () => {
+      expect(() => fromJsonSchema({
+        type: 'object',
+        properties: { id: { type: ['string', 'number'] } },
+      })).toThrow('multiple types');
+    });
+
+    it('throws when the root is not an object', () => {
+      expect(() => fromJsonSchema({ type: 'array' })).toThrow('root must describe an object');
+    });
+  });
+});
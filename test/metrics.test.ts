@@ -0,0 +1,167 @@
+/**
+ * Metrics Aggregator Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createMetricsAggregator } from '../src/core/metrics.js';
+import type { MetricsSnapshot } from '../src/core/metrics.js';
+import { defineCanonSchema } from '../src/core/schema.js';
+import { canonExpress } from '../src/middleware/express.js';
+import type { WideEvent } from '../src/types.js';
+
+describe('Metrics Aggregator', () => {
+  const baseEvent: Partial<WideEvent> = {
+    service: 'test-service',
+    method: 'GET',
+    path: '/users/1',
+    route: '/users/:id',
+    status_code: 200,
+    duration_ms: 30,
+    outcome: 'success',
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('counts requests and builds latency histograms per label set', () => {
+    const metrics = createMetricsAggregator({ buckets: [10, 50, 100] });
+
+    metrics.observe({ ...baseEvent, duration_ms: 5 });
+    metrics.observe({ ...baseEvent, path: '/users/2', duration_ms: 40 });
+    metrics.observe({ ...baseEvent, duration_ms: 500 });
+    metrics.observe({ ...baseEvent, status_code: 500, outcome: 'error', duration_ms: 80 });
+
+    const { series, buckets, labels } = metrics.snapshot();
+
+    expect(labels).toEqual(['service', 'route', 'method', 'status_code', 'outcome']);
+    expect(buckets).toEqual([10, 50, 100]);
+    expect(series).toHaveLength(2);
+
+    const ok = series.find(s => s.labels.status_code === '200');
+    expect(ok).toEqual({
+      labels: { service: 'test-service', route: '/users/:id', method: 'GET', status_code: '200', outcome: 'success' },
+      count: 3,
+      sum: 545,
+      bucketCounts: [1, 2, 2],
+    });
+
+    const failed = series.find(s => s.labels.status_code === '500');
+    expect(failed?.count).toBe(1);
+    expect(failed?.bucketCounts).toEqual([0, 0, 1]);
+  });
+
+  it('never uses high-cardinality fields as labels', () => {
+    const schema = defineCanonSchema({
+      required: [],
+      fields: {
+        'user.id': { type: 'string', cardinality: 'high' },
+        'user.plan': { type: 'string', cardinality: 'low' },
+      },
+    });
+    const metrics = createMetricsAggregator({
+      labels: ['route', 'path', 'request_id', 'user.id', 'user.plan'],
+      schema,
+    });
+
+    metrics.observe({ ...baseEvent, request_id: 'req_1', user: { id: 'u_1', plan: 'pro' } });
+    metrics.observe({ ...baseEvent, request_id: 'req_2', path: '/users/2', user: { id: 'u_2', plan: 'pro' } });
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.labels).toEqual(['route', 'user.plan']);
+    expect(snapshot.series).toHaveLength(1);
+    expect(snapshot.series[0].labels).toEqual({ route: '/users/:id', 'user.plan': 'pro' });
+  });
+
+  it('honors the observing adapter schema', () => {
+    const schema = defineCanonSchema({
+      required: [],
+      fields: { tenant: { type: 'string', cardinality: 'high' } },
+    });
+    const metrics = createMetricsAggregator({ labels: ['route', 'tenant'] });
+
+    metrics.observe({ ...baseEvent, tenant: 't_1' }, schema);
+
+    expect(metrics.snapshot().series[0].labels).toEqual({ route: '/users/:id' });
+  });
+
+  it('folds label sets beyond maxSeries into an overflow series', () => {
+    const metrics = createMetricsAggregator({ labels: ['route'], maxSeries: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      metrics.observe({ ...baseEvent, route: `/r${i}` });
+    }
+
+    const { series } = metrics.snapshot();
+    expect(series).toHaveLength(3);
+    expect(series.find(s => s.labels.route === '__overflow__')?.count).toBe(3);
+  });
+
+  it('exports snapshots on an interval and on flush', async () => {
+    vi.useFakeTimers();
+    const exported: MetricsSnapshot[] = [];
+    const metrics = createMetricsAggregator({
+      exporter: (snapshot) => {
+        exported.push(snapshot);
+      },
+      exportIntervalMs: 1000,
+    });
+
+    metrics.observe(baseEvent);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(exported).toHaveLength(1);
+    expect(exported[0].series[0].count).toBe(1);
+
+    metrics.observe(baseEvent);
+    await metrics.close();
+
+    expect(exported).toHaveLength(2);
+    expect(exported[1].series[0].count).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(exported).toHaveLength(2);
+  });
+
+  it('reports exporter failures without throwing', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const metrics = createMetricsAggregator({
+      exporter: () => {
+        throw new Error('collector down');
+      },
+      exportIntervalMs: 0,
+    });
+
+    await expect(metrics.flush()).resolves.toBeUndefined();
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining('[canon] metrics export failed: collector down'));
+  });
+
+  it('observes events dropped by sampling', async () => {
+    const metrics = createMetricsAggregator();
+    const emitted: WideEvent[] = [];
+
+    const app = express();
+    app.use(canonExpress({
+      service: 'test-service',
+      debug: false,
+      sample: () => false,
+      emit: (event) => emitted.push(event),
+      metrics,
+    }));
+    app.get('/users/:id', (_req, res) => res.send('ok'));
+
+    await request(app).get('/users/1').expect(200);
+    await request(app).get('/users/2').expect(200);
+
+    expect(emitted).toHaveLength(0);
+    expect(metrics.snapshot().series).toEqual([
+      expect.objectContaining({
+        labels: { service: 'test-service', route: '/users/:id', method: 'GET', status_code: '200', outcome: 'success' },
+        count: 2,
+      }),
+    ]);
+  });
+});
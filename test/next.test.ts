@@ -0,0 +1,116 @@
+/**
+ * Next.js Route Handler Wrapper Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { withCanon } from '../src/middleware/next.js';
+import type { WithCanonConfig } from '../src/middleware/next.js';
+import type { WideEvent } from '../src/types.js';
+
+describe('Next.js Wrapper', () => {
+  let emittedEvents: WideEvent[];
+  let config: WithCanonConfig;
+
+  beforeEach(() => {
+    emittedEvents = [];
+    config = {
+      service: 'test-service',
+      version: '1.0.0',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('emits exactly once with the response status', async () => {
+    const GET = withCanon(async () => Response.json({ ok: true }), config);
+
+    const response = await GET(new Request('http://localhost/api/test?x=1'), {});
+
+    expect(response.status).toBe(200);
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].method).toBe('GET');
+    expect(emittedEvents[0].path).toBe('/api/test');
+    expect(emittedEvents[0].status_code).toBe(200);
+    expect(emittedEvents[0].outcome).toBe('success');
+  });
+
+  it('attaches req.canon and the configured route', async () => {
+    const GET = withCanon(async (req) => {
+      req.canon.enrich({ user: { id: 'u123' } });
+      return new Response('ok');
+    }, { ...config, route: '/api/users/[id]' });
+
+    await GET(new Request('http://localhost/api/users/123'), {});
+
+    expect((emittedEvents[0] as any).user).toEqual({ id: 'u123' });
+    expect(emittedEvents[0].route).toBe('/api/users/[id]');
+  });
+
+  it('propagates request_id and trace_id in response headers', async () => {
+    const GET = withCanon(async () => new Response('ok'), config);
+
+    const response = await GET(
+      new Request('http://localhost/test', { headers: { 'x-request-id': 'custom-request-id' } }),
+      {}
+    );
+
+    expect(response.headers.get('x-request-id')).toBe('custom-request-id');
+    expect(response.headers.get('x-trace-id')).toMatch(/^trace_[a-z2-7]+$/);
+    expect(emittedEvents[0].request_id).toBe('custom-request-id');
+  });
+
+  it('copies responses with immutable headers', async () => {
+    const GET = withCanon(async () => Response.redirect('http://localhost/elsewhere', 307), config);
+
+    const response = await GET(new Request('http://localhost/test'), {});
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/elsewhere');
+    expect(response.headers.get('x-request-id')).toBeDefined();
+  });
+
+  it('captures thrown errors, emits 500 and rethrows', async () => {
+    const POST = withCanon(async () => {
+      throw new Error('Handler error');
+    }, config);
+
+    await expect(POST(new Request('http://localhost/test', { method: 'POST' }), {}))
+      .rejects.toThrow('Handler error');
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].outcome).toBe('error');
+    expect(emittedEvents[0].status_code).toBe(500);
+    expect(emittedEvents[0].error?.message).toBe('Handler error');
+  });
+
+  it('emits aborted event with status 499 when the request signal aborts', async () => {
+    const controller = new AbortController();
+    const GET = withCanon(async () => {
+      controller.abort();
+      return new Response('late');
+    }, config);
+
+    await GET(new Request('http://localhost/test', { signal: controller.signal }), {});
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(emittedEvents[0].outcome).toBe('aborted');
+    expect(emittedEvents[0].status_code).toBe(499);
+  });
+
+  it('prevents emission for ignored paths', async () => {
+    const GET = withCanon(async (req) => {
+      req.canon.enrich({ user: { id: 'u_1' } });
+      return new Response('ok');
+    }, { ...config, ignorePaths: ['/health'] });
+
+    const response = await GET(new Request('http://localhost/health'), {});
+
+    expect(response.status).toBe(200);
+
+    expect(emittedEvents).toHaveLength(0);
+  });
+});
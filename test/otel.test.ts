@@ -0,0 +1,139 @@
+/**
+ * OpenTelemetry Span Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { context, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { canonExpress, canonExpressError } from '../src/middleware/express.js';
+import { loadOTel, isOTelAvailable } from '../src/core/otel.js';
+import type { CanonConfig, WideEvent } from '../src/types.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+
+describe('OpenTelemetry spans', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+
+  let emittedEvents: WideEvent[];
+  let config: CanonConfig;
+
+  beforeAll(async () => {
+    await loadOTel();
+    provider.register({ contextManager: new AsyncLocalStorageContextManager().enable() });
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    emittedEvents = [];
+    config = {
+      service: 'test-service',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+      otelSpans: true,
+    };
+  });
+
+  it('loads the OTel API', async () => {
+    await expect(loadOTel()).resolves.toBe(true);
+    expect(isOTelAvailable()).toBe(true);
+  });
+
+  it('starts a server span per request and ends it with the event', async () => {
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/orders/:id', (req, res) => {
+      req.canon.set('order.id', req.params.id);
+      res.send('ok');
+    });
+
+    const response = await request(app)
+      .get('/orders/42')
+      .set('traceparent', `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`)
+      .expect(200);
+
+    const [span] = exporter.getFinishedSpans();
+    const event = emittedEvents[0];
+
+    expect(span.name).toBe('GET /orders/:id');
+    expect(span.spanContext().traceId).toBe(TRACE_ID);
+    expect(span.parentSpanId).toBe(PARENT_SPAN_ID);
+    expect(span.attributes['order.id']).toBe('42');
+    expect(span.attributes['status_code']).toBe(200);
+
+    expect(event.span_id).toBe(span.spanContext().spanId);
+    expect(event.parent_span_id).toBe(PARENT_SPAN_ID);
+    expect(response.headers['traceparent']).toBe(`00-${TRACE_ID}-${event.span_id}-01`);
+  });
+
+  it('makes the span active inside the handler', async () => {
+    let activeSpanId: string | undefined;
+
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/test', async (_req, res) => {
+      await Promise.resolve();
+      activeSpanId = trace.getActiveSpan()?.spanContext().spanId;
+      res.send('ok');
+    });
+
+    await request(app).get('/test').expect(200);
+
+    expect(activeSpanId).toBe(emittedEvents[0].span_id);
+  });
+
+  it('uses the span trace ID for new traces', async () => {
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/test', (_req, res) => res.send('ok'));
+
+    await request(app).get('/test').expect(200);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(emittedEvents[0].trace_id).toBe(span.spanContext().traceId);
+    expect(span.parentSpanId).toBeUndefined();
+  });
+
+  it('marks the span as error on failure', async () => {
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/fail', () => {
+      throw new Error('boom');
+    });
+    app.use(canonExpressError());
+    app.use((_err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).send('error');
+    });
+
+    await request(app).get('/fail').expect(500);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(2);
+    expect(span.status.message).toBe('boom');
+  });
+
+  it('does not start spans when otelSpans is off', async () => {
+    const app = express();
+    app.use(canonExpress({ ...config, otelSpans: false }));
+    app.get('/test', (_req, res) => res.send('ok'));
+
+    await request(app).get('/test').expect(200);
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Prometheus Endpoint Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import request from 'supertest';
+import { createMetricsAggregator, getDefaultMetricsAggregator } from '../src/core/metrics.js';
+import { PROMETHEUS_CONTENT_TYPE, toPrometheusText } from '../src/core/prometheus.js';
+import { defineCanonSchema } from '../src/core/schema.js';
+import { canonExpress } from '../src/middleware/express.js';
+import { canonMetricsHandler } from '../src/middleware/metrics.js';
+import type { WideEvent } from '../src/types.js';
+
+describe('Prometheus Metrics', () => {
+  const baseEvent: Partial<WideEvent> = {
+    service: 'api',
+    method: 'GET',
+    route: '/users/:id',
+    status_code: 200,
+    duration_ms: 30,
+    outcome: 'success',
+  };
+
+  afterEach(() => {
+    getDefaultMetricsAggregator().reset();
+  });
+
+  it('renders counters and histograms in exposition format', () => {
+    const metrics = createMetricsAggregator({ buckets: [10, 50] });
+    metrics.observe({ ...baseEvent, duration_ms: 5 });
+    metrics.observe({ ...baseEvent, duration_ms: 40 });
+    metrics.observe({ ...baseEvent, duration_ms: 400 });
+    metrics.recordEmitted(baseEvent);
+    metrics.recordSampledOut(baseEvent);
+    metrics.recordValidationErrors(baseEvent, 2);
+
+    const text = toPrometheusText(metrics.snapshot());
+    const labels = 'service="api",route="/users/:id",method="GET",status_code="200",outcome="success"';
+
+    expect(text).toContain('# TYPE canon_requests_total counter');
+    expect(text).toContain(`canon_requests_total{${labels}} 3`);
+    expect(text).toContain('# TYPE canon_request_duration_ms histogram');
+    expect(text).toContain(`canon_request_duration_ms_bucket{${labels},le="10"} 1`);
+    expect(text).toContain(`canon_request_duration_ms_bucket{${labels},le="50"} 2`);
+    expect(text).toContain(`canon_request_duration_ms_bucket{${labels},le="+Inf"} 3`);
+    expect(text).toContain(`canon_request_duration_ms_sum{${labels}} 445`);
+    expect(text).toContain(`canon_request_duration_ms_count{${labels}} 3`);
+    expect(text).toContain('canon_events_emitted_total{service="api"} 1');
+    expect(text).toContain('canon_events_sampled_out_total{service="api"} 1');
+    expect(text).toContain('canon_validation_errors_total{service="api"} 2');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('sanitizes label names and escapes label values', () => {
+    const metrics = createMetricsAggregator({ labels: ['user.plan'] });
+    metrics.observe({ ...baseEvent, user: { plan: 'pro "beta"\n\\x' } });
+
+    const text = toPrometheusText(metrics.snapshot());
+
+    expect(text).toContain('canon_requests_total{user_plan="pro \\"beta\\"\\n\\\\x"} 1');
+  });
+
+  it('serves metrics from an Express route fed by metrics: true', async () => {
+    const app = express();
+    app.use(canonExpress({ service: 'api', metrics: true, emit: () => {} }));
+    app.get('/users/:id', (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.get('/metrics', canonMetricsHandler());
+
+    await request(app).get('/users/1');
+    const res = await request(app).get('/metrics');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(res.text).toMatch(/canon_requests_total\{service="api",route="\/users\/:id",method="GET",status_code="200",outcome="success"\} 1/);
+    expect(res.text).toContain('canon_events_emitted_total{service="api"} 1');
+  });
+
+  it('counts sampled-out events and validation errors', async () => {
+    const schema = defineCanonSchema({
+      required: ['user.id'],
+      fields: { 'user.id': { type: 'string' } },
+    });
+    const metrics = createMetricsAggregator();
+    const app = express();
+    app.use(canonExpress({ service: 'api', schema, metrics, debug: false, sample: () => false, emit: () => {} }));
+    app.get('/', (_req, res) => {
+      res.json({ ok: true });
+    });
+
+    await request(app).get('/');
+    await request(app).get('/');
+
+    const [counters] = metrics.snapshot().pipeline;
+    expect(counters).toEqual({ service: 'api', emitted: 0, sampledOut: 2, validationErrors: 2 });
+  });
+
+  it('works as a raw node:http handler', async () => {
+    const metrics = createMetricsAggregator();
+    metrics.observe(baseEvent);
+    const server = http.createServer(canonMetricsHandler(metrics));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const res = await fetch(`http://127.0.0.1:${port}/metrics`);
+      const text = await res.text();
+
+      expect(res.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE);
+      expect(text).toContain('canon_requests_total{');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
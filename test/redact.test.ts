@@ -3,7 +3,9 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
 import { applyRedaction, createRedactionConfig } from '../src/core/redact.js';
+import { sha256HexFallback } from '../src/utils/crypto.js';
 import type { WideEvent } from '../src/types.js';
 
 describe('Redaction', () => {
@@ -106,6 +108,26 @@ describe('Redaction', () => {
 
       expect((redacted1 as any).user.email).toBe((redacted2 as any).user.email);
     });
+
+    it('matches node:crypto SHA-256 output', () => {
+      const config = createRedactionConfig({
+        enabled: true,
+        strategy: 'hash',
+        fields: ['user.email'],
+      });
+
+      for (const email of ['', 'john@example.com', 'ünïcödé@例え.jp', 'x'.repeat(200)]) {
+        const redacted = applyRedaction({ ...baseEvent, user: { email } }, config);
+        const expected = createHash('sha256').update(email).digest('hex');
+        expect((redacted as any).user.email).toBe(expected);
+      }
+    });
+
+    it('uses a fallback SHA-256 matching node:crypto on runtimes without it', () => {
+      for (const value of ['', 'john@example.com', 'ünïcödé@例え.jp', 'x'.repeat(200)]) {
+        expect(sha256HexFallback(value)).toBe(createHash('sha256').update(value).digest('hex'));
+      }
+    });
   });
 
   describe('drop strategy', () => {
@@ -0,0 +1,148 @@
+/**
+ * Sampling Rules Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import express from 'express';
+import { shouldSample, createSamplingConfig } from '../src/core/sampling.js';
+import { validateSamplingRules } from '../src/core/sampling-rules.js';
+import { canonExpress } from '../src/middleware/express.js';
+import type { SamplingRule, WideEvent } from '../src/types.js';
+
+describe('Sampling Rules', () => {
+  const baseEvent: Partial<WideEvent> = {
+    timestamp: '2024-01-15T10:30:00.000Z',
+    request_id: 'req_test123',
+    service: 'test-service',
+    method: 'GET',
+    path: '/test',
+    route: '/test',
+    status_code: 200,
+    duration_ms: 50,
+    outcome: 'success',
+  };
+
+  const rules: SamplingRule[] = [
+    { name: 'health', match: { route: '/health', method: 'GET' }, rate: 0 },
+    { name: 'enterprise', match: { 'user.plan': 'enterprise' }, rate: 1 },
+    { name: 'slowish', when: { duration_ms: { gt: 500 } }, rate: 0.5 },
+  ];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('evaluation', () => {
+    it('drops events matching a rate 0 rule, even errors', () => {
+      const config = createSamplingConfig({ rules });
+      const event = { ...baseEvent, route: '/health', status_code: 500, outcome: 'error' as const };
+
+      expect(shouldSample(event, config)).toEqual({ sampled: false, rate: 0, reason: 'rule', rule: 'health' });
+    });
+
+    it('matches nested fields by dot path', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.99);
+      const config = createSamplingConfig({ rules, sampleRateSuccess: 0 });
+      const event = { ...baseEvent, user: { plan: 'enterprise' } };
+
+      expect(shouldSample(event, config)).toEqual({ sampled: true, rate: 1, reason: 'rule', rule: 'enterprise' });
+    });
+
+    it('uses the first matching rule', () => {
+      const config = createSamplingConfig({ rules });
+      const event = { ...baseEvent, duration_ms: 900, user: { plan: 'enterprise' } };
+
+      expect(shouldSample(event, config).rule).toBe('enterprise');
+    });
+
+    it('applies the rule rate to the draw', () => {
+      const random = vi.spyOn(Math, 'random');
+      const config = createSamplingConfig({ rules });
+      const event = { ...baseEvent, duration_ms: 900 };
+
+      random.mockReturnValue(0.4);
+      expect(shouldSample(event, config).sampled).toBe(true);
+
+      random.mockReturnValue(0.6);
+      expect(shouldSample(event, config)).toEqual({ sampled: false, rate: 0.5, reason: 'rule', rule: 'slowish' });
+    });
+
+    it('falls back to default rules when nothing matches', () => {
+      const config = createSamplingConfig({ rules });
+      const event = { ...baseEvent, status_code: 503, outcome: 'error' as const };
+
+      expect(shouldSample(event, config).reason).toBe('error');
+    });
+
+    it('supports eq, ne, in and range operators', () => {
+      const config = createSamplingConfig({
+        rules: [
+          {
+            when: {
+              method: { in: ['POST', 'PUT'] },
+              status_code: { gte: 200, lt: 300 },
+              region: { ne: 'eu-west-1' },
+              'flags.beta': { eq: true },
+            },
+            rate: 0,
+          },
+        ],
+      });
+      const match = { ...baseEvent, method: 'POST', region: 'us-east-1', flags: { beta: true } };
+
+      expect(shouldSample(match, config).reason).toBe('rule');
+      expect(shouldSample({ ...match, method: 'GET' }, config).reason).not.toBe('rule');
+      expect(shouldSample({ ...match, status_code: 404 }, config).reason).not.toBe('rule');
+      expect(shouldSample({ ...match, region: 'eu-west-1' }, config).reason).not.toBe('rule');
+      expect(shouldSample({ ...match, flags: { beta: false } }, config).reason).not.toBe('rule');
+    });
+
+    it('does not match range operators on non-numbers', () => {
+      const config = createSamplingConfig({ rules: [{ when: { 'cart.total': { gt: 0 } }, rate: 0 }] });
+
+      expect(shouldSample({ ...baseEvent, cart: { total: '100' } }, config).reason).not.toBe('rule');
+    });
+
+    it('is overridden by a custom sampler', () => {
+      const config = createSamplingConfig({ rules, custom: () => true });
+      const event = { ...baseEvent, route: '/health' };
+
+      expect(shouldSample(event, config).reason).toBe('custom');
+    });
+  });
+
+  describe('validation', () => {
+    it('accepts valid rules', () => {
+      expect(() => validateSamplingRules(rules)).not.toThrow();
+      expect(() => validateSamplingRules(undefined)).not.toThrow();
+    });
+
+    it('rejects rates outside [0, 1]', () => {
+      expect(() => validateSamplingRules([{ rate: 2 }])).toThrow('[canon] Invalid sampling rule #0: rate must be a number between 0 and 1');
+      expect(() => validateSamplingRules([{ match: { route: '/x' } }])).toThrow(/rate must be a number/);
+    });
+
+    it('names the offending rule', () => {
+      expect(() => validateSamplingRules([{ rate: 1 }, { name: 'bad', rate: -1 }])).toThrow('#1 (bad)');
+    });
+
+    it('rejects unknown keys and operators', () => {
+      expect(() => validateSamplingRules([{ mach: { route: '/x' }, rate: 0 }])).toThrow('unknown key "mach"');
+      expect(() => validateSamplingRules([{ when: { duration_ms: { greater: 5 } }, rate: 0 }])).toThrow('unknown operator "greater"');
+    });
+
+    it('rejects mistyped operands', () => {
+      expect(() => validateSamplingRules([{ when: { duration_ms: { gt: '500' } }, rate: 0 }])).toThrow('when.duration_ms: gt must be a number');
+      expect(() => validateSamplingRules([{ when: { method: { in: 'GET' } }, rate: 0 }])).toThrow('in must be an array');
+      expect(() => validateSamplingRules([{ match: { user: { id: 1 } }, rate: 0 }])).toThrow('match.user must be');
+      expect(() => validateSamplingRules({ rate: 0 })).toThrow('sample.rules must be an array');
+    });
+
+    it('fails at adapter construction', () => {
+      const app = express();
+      const bad = JSON.parse('{ "rules": [{ "match": { "route": "/health" }, "rate": "0" }] }');
+
+      expect(() => app.use(canonExpress({ service: 'test-service', sample: bad }))).toThrow(/Invalid sampling rule #0/);
+    });
+  });
+});
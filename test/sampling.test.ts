@@ -10,6 +10,9 @@ import {
   alwaysSample,
   neverSample,
   fixedRateSample,
+  hashToUnitInterval,
+  toSamplingDecision,
+  validateAdaptiveSampling,
 } from '../src/core/sampling.js';
 import type { WideEvent } from '../src/types.js';
 
@@ -28,41 +31,41 @@ describe('Sampling', () => {
   describe('default sampling behavior', () => {
     it('always samples 5xx errors', () => {
       const event = { ...baseEvent, status_code: 500, outcome: 'error' as const };
-      expect(shouldSample(event, undefined)).toBe(true);
+      expect(shouldSample(event, undefined).sampled).toBe(true);
 
       const event503 = { ...baseEvent, status_code: 503, outcome: 'error' as const };
-      expect(shouldSample(event503, undefined)).toBe(true);
+      expect(shouldSample(event503, undefined).sampled).toBe(true);
     });
 
     it('always samples 429 (too many requests)', () => {
       const event = { ...baseEvent, status_code: 429 };
-      expect(shouldSample(event, undefined)).toBe(true);
+      expect(shouldSample(event, undefined).sampled).toBe(true);
     });
 
     it('always samples 408 (request timeout)', () => {
       const event = { ...baseEvent, status_code: 408 };
-      expect(shouldSample(event, undefined)).toBe(true);
+      expect(shouldSample(event, undefined).sampled).toBe(true);
     });
 
     it('always samples aborted requests', () => {
       const event = { ...baseEvent, outcome: 'aborted' as const, status_code: 499 };
-      expect(shouldSample(event, undefined)).toBe(true);
+      expect(shouldSample(event, undefined).sampled).toBe(true);
     });
 
     it('always samples requests with error outcome', () => {
       const event = { ...baseEvent, outcome: 'error' as const };
-      expect(shouldSample(event, undefined)).toBe(true);
+      expect(shouldSample(event, undefined).sampled).toBe(true);
     });
 
     it('always samples slow requests above threshold', () => {
       const event = { ...baseEvent, duration_ms: 2500 };
-      expect(shouldSample(event, undefined)).toBe(true);
+      expect(shouldSample(event, undefined).sampled).toBe(true);
     });
 
     it('uses configured slow threshold', () => {
       const config = createSamplingConfig({ slowThresholdMs: 100 });
       const event = { ...baseEvent, duration_ms: 150 };
-      expect(shouldSample(event, config)).toBe(true);
+      expect(shouldSample(event, config).sampled).toBe(true);
     });
   });
 
@@ -81,7 +84,7 @@ describe('Sampling', () => {
       const config = createSamplingConfig({ sampleRateSuccess: 0.05 });
       const event = { ...baseEvent };
 
-      expect(shouldSample(event, config)).toBe(true);
+      expect(shouldSample(event, config).sampled).toBe(true);
     });
 
     it('drops success requests above rate threshold', () => {
@@ -90,7 +93,193 @@ describe('Sampling', () => {
       const config = createSamplingConfig({ sampleRateSuccess: 0.05 });
       const event = { ...baseEvent };
 
-      expect(shouldSample(event, config)).toBe(false);
+      expect(shouldSample(event, config).sampled).toBe(false);
+    });
+  });
+
+  describe('sampling decisions', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('reports the reason and rate for always-sample rules', () => {
+      expect(shouldSample({ ...baseEvent, status_code: 503 }, undefined)).toEqual({ sampled: true, rate: 1, reason: 'error' });
+      expect(shouldSample({ ...baseEvent, status_code: 429 }, undefined).reason).toBe('status_429');
+      expect(shouldSample({ ...baseEvent, status_code: 408 }, undefined).reason).toBe('status_408');
+      expect(shouldSample({ ...baseEvent, outcome: 'aborted' }, undefined).reason).toBe('aborted');
+      expect(shouldSample({ ...baseEvent, outcome: 'error' }, undefined).reason).toBe('error');
+      expect(shouldSample({ ...baseEvent, duration_ms: 5000 }, undefined).reason).toBe('slow');
+    });
+
+    it('reports the success rate for random sampling', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.01);
+      const config = createSamplingConfig({ sampleRateSuccess: 0.05 });
+
+      expect(shouldSample({ ...baseEvent }, config)).toEqual({ sampled: true, rate: 0.05, reason: 'random' });
+    });
+
+    it('wraps boolean custom samplers', () => {
+      expect(shouldSample({ ...baseEvent }, () => true)).toEqual({ sampled: true, rate: 1, reason: 'custom' });
+      expect(toSamplingDecision(false)).toEqual({ sampled: false, rate: 1, reason: 'custom' });
+    });
+
+    it('passes through decisions returned by custom samplers', () => {
+      const decision = { sampled: true, rate: 0.25, reason: 'random' as const };
+      expect(shouldSample({ ...baseEvent }, () => decision)).toBe(decision);
+    });
+  });
+
+  describe('adaptive sampling', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-15T10:30:00.000Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    const sendTraffic = (
+      config: ReturnType<typeof createSamplingConfig>,
+      perSecond: number,
+      seconds: number,
+      event: Partial<WideEvent> = baseEvent
+    ) => {
+      let kept = 0;
+      for (let second = 0; second < seconds; second++) {
+        for (let i = 0; i < perSecond; i++) {
+          if (shouldSample(event, config).sampled) kept++;
+        }
+        vi.advanceTimersByTime(1000);
+      }
+      return kept;
+    };
+
+    it('keeps every event under the target throughput', () => {
+      const config = createSamplingConfig({ adaptive: { targetPerSecond: 10 } });
+
+      expect(sendTraffic(config, 5, 30)).toBe(150);
+    });
+
+    it('settles near the target within a window of a spike', () => {
+      const config = createSamplingConfig({ adaptive: { targetPerSecond: 10, windowMs: 5000 } });
+
+      sendTraffic(config, 10, 10);
+      sendTraffic(config, 1000, 5);
+      const kept = sendTraffic(config, 1000, 20);
+
+      expect(kept / 20).toBeGreaterThan(7);
+      expect(kept / 20).toBeLessThan(13);
+    });
+
+    it('writes the effective rate onto the decision', () => {
+      const config = createSamplingConfig({ adaptive: { targetPerSecond: 1, windowMs: 1000 } });
+
+      sendTraffic(config, 100, 2);
+      const decision = shouldSample(baseEvent, config);
+
+      expect(decision.reason).toBe('adaptive');
+      expect(decision.rate).toBeGreaterThan(0);
+      expect(decision.rate).toBeLessThan(0.05);
+    });
+
+    it('budgets each route separately', () => {
+      const config = createSamplingConfig({ adaptive: { targetPerSecond: 1, windowMs: 1000 } });
+
+      sendTraffic(config, 500, 2, { ...baseEvent, route: '/busy' });
+
+      expect(shouldSample({ ...baseEvent, route: '/quiet' }, config).rate).toBe(1);
+      expect(shouldSample({ ...baseEvent, route: '/busy' }, config).rate).toBeLessThan(0.01);
+    });
+
+    it('supports a custom key', () => {
+      const config = createSamplingConfig({ adaptive: { targetPerSecond: 1, windowMs: 1000, key: 'user.plan' } });
+
+      sendTraffic(config, 500, 2, { ...baseEvent, user: { plan: 'free' } });
+
+      expect(shouldSample({ ...baseEvent, user: { plan: 'pro' } }, config).rate).toBe(1);
+    });
+
+    it('still always keeps errors and slow requests', () => {
+      const config = createSamplingConfig({ adaptive: { targetPerSecond: 1, windowMs: 1000 } });
+
+      sendTraffic(config, 500, 2);
+
+      expect(shouldSample({ ...baseEvent, status_code: 500, outcome: 'error' }, config)).toEqual({ sampled: true, rate: 1, reason: 'error' });
+      expect(shouldSample({ ...baseEvent, duration_ms: 5000 }, config).reason).toBe('slow');
+    });
+
+    it('validates options', () => {
+      expect(() => validateAdaptiveSampling({ targetPerSecond: 0 })).toThrow('targetPerSecond must be a positive number');
+      expect(() => validateAdaptiveSampling({ targetPerSecond: 1, windowMs: -1 })).toThrow('windowMs');
+      expect(() => validateAdaptiveSampling({ targetPerSecond: 1, maxKeys: 1.5 })).toThrow('maxKeys');
+      expect(() => validateAdaptiveSampling({ targetPerSecond: 5, key: 'route' })).not.toThrow();
+    });
+  });
+
+  describe('consistent sampling', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('hashes keys into [0, 1) with FNV-1a', () => {
+      expect(hashToUnitInterval('a')).toBe(0xe40c292c / 0x100000000);
+      expect(hashToUnitInterval('foobar')).toBe(0xbf9cf968 / 0x100000000);
+    });
+
+    it('makes the same decision for the same trace_id', () => {
+      const random = vi.spyOn(Math, 'random');
+      const config = createSamplingConfig({ sampleRateSuccess: 0.5, consistentBy: 'trace_id' });
+
+      for (let i = 0; i < 50; i++) {
+        const traceId = `trace_${i}`;
+        const expected = hashToUnitInterval(traceId) < 0.5;
+        const serviceA = { ...baseEvent, service: 'a', request_id: `req_a${i}`, trace_id: traceId };
+        const serviceB = { ...baseEvent, service: 'b', request_id: `req_b${i}`, trace_id: traceId };
+
+        expect(shouldSample(serviceA, config).sampled).toBe(expected);
+        expect(shouldSample(serviceB, config).sampled).toBe(expected);
+      }
+
+      expect(random).not.toHaveBeenCalled();
+    });
+
+    it('keeps roughly sampleRateSuccess of distinct keys', () => {
+      const config = createSamplingConfig({ sampleRateSuccess: 0.1, consistentBy: 'request_id' });
+
+      let kept = 0;
+      for (let i = 0; i < 10_000; i++) {
+        if (shouldSample({ ...baseEvent, request_id: `req_${i}` }, config).sampled) kept++;
+      }
+
+      expect(kept).toBeGreaterThan(800);
+      expect(kept).toBeLessThan(1200);
+    });
+
+    it('supports a key function', () => {
+      const config = createSamplingConfig({
+        sampleRateSuccess: 0.5,
+        consistentBy: (event) => (event.user as { id?: string } | undefined)?.id,
+      });
+      const event = { ...baseEvent, user: { id: 'u_123' } };
+
+      expect(shouldSample(event, config).sampled).toBe(hashToUnitInterval('u_123') < 0.5);
+    });
+
+    it('falls back to Math.random() when the key is missing', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.01);
+      const config = createSamplingConfig({ sampleRateSuccess: 0.05, consistentBy: 'trace_id' });
+
+      expect(shouldSample({ ...baseEvent }, config).sampled).toBe(true);
+      expect(Math.random).toHaveBeenCalled();
+    });
+
+    it('still always samples errors', () => {
+      const config = createSamplingConfig({ sampleRateSuccess: 0, consistentBy: 'trace_id' });
+      const event = { ...baseEvent, trace_id: 'trace_x', status_code: 500, outcome: 'error' as const };
+
+      expect(shouldSample(event, config).sampled).toBe(true);
     });
   });
 
@@ -99,7 +288,7 @@ describe('Sampling', () => {
       const customFn = vi.fn().mockReturnValue(true);
       const event = { ...baseEvent };
 
-      expect(shouldSample(event, customFn)).toBe(true);
+      expect(shouldSample(event, customFn).sampled).toBe(true);
       expect(customFn).toHaveBeenCalledWith(event);
     });
 
@@ -108,7 +297,7 @@ describe('Sampling', () => {
       const config = createSamplingConfig({ custom: customFn });
       const event = { ...baseEvent };
 
-      expect(shouldSample(event, config)).toBe(false);
+      expect(shouldSample(event, config).sampled).toBe(false);
       expect(customFn).toHaveBeenCalled();
     });
   });
@@ -2,9 +2,9 @@
  * Schema Validation Tests
  */
 
-import { describe, it, expect } from 'vitest';
-import { defineCanonSchema, validateSchema, getPiiFields, CANON_BASE_FIELDS } from '../src/core/schema.js';
-import type { WideEvent } from '../src/types.js';
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { applyMaxItems, defineCanonSchema, validateSchema, getPiiFields, CANON_BASE_FIELDS } from '../src/core/schema.js';
+import type { CanonContext, CanonSchema, SchemaPath, SchemaValue, WideEvent } from '../src/types.js';
 
 describe('Schema', () => {
   describe('defineCanonSchema', () => {
@@ -29,7 +29,7 @@ describe('Schema', () => {
       expect(schema.required).toEqual(['user.id']);
       expect(schema.fields['user.id']).toEqual({ type: 'string' });
       expect(schema.fields['ip']).toEqual({ type: 'string', pii: false });
-      expect(schema.fields['timestamp']).toEqual({ type: 'string' });
+      expect(schema.fields['timestamp']).toEqual({ type: 'string', format: 'iso-datetime' });
       expect(schema.unknownMode).toBe('warn');
     });
   });
@@ -163,6 +163,360 @@ describe('Schema', () => {
       expect(result.errors.some(e => e.includes('unknown_field'))).toBe(true);
     });
 
+    it('requires job fields instead of HTTP fields in job mode', () => {
+      const schema = defineCanonSchema({ mode: 'job' });
+
+      const jobEvent = {
+        timestamp: '2024-01-15T10:30:00.000Z',
+        request_id: 'req_test123',
+        service: 'worker',
+        job: { name: 'send-invoice', attempt: 1 },
+        duration_ms: 50,
+        outcome: 'success' as const,
+      };
+
+      expect(validateSchema(jobEvent, schema, true).valid).toBe(true);
+
+      const result = validateSchema({ ...jobEvent, job: { name: 'send-invoice' } }, schema, true);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Missing required built-in field: job.attempt']);
+    });
+
+    it('reports unknown nested fields with their full path', () => {
+      const schema = defineCanonSchema({
+        unknownMode: 'deny',
+        fields: {
+          'user.id': { type: 'string' },
+          'user.email': { type: 'string' },
+        },
+      });
+
+      const event = {
+        ...completeEvent,
+        user: { id: 'u_1', emial: 'a@example.com' },
+      };
+
+      const result = validateSchema(event, schema, true);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Unknown field: user.emial']);
+    });
+
+    it('does not inspect objects without defined children', () => {
+      const schema = defineCanonSchema({
+        unknownMode: 'deny',
+        fields: { 'feature_flags': { type: 'object' } },
+      });
+
+      const event = {
+        ...completeEvent,
+        feature_flags: { new_checkout: true },
+        error: { type: 'Error', message: 'boom', stack: 'Error: boom' },
+      };
+
+      expect(validateSchema(event, schema, true).errors).toEqual([]);
+    });
+
+    it('matches wildcard segments against array items and object keys', () => {
+      const schema = defineCanonSchema({
+        unknownMode: 'deny',
+        fields: {
+          'cart.items.*.sku': { type: 'string' },
+          'cart.items.*.qty': { type: 'number' },
+          'limits.*.max': { type: 'number' },
+        },
+      });
+
+      const event = {
+        ...completeEvent,
+        cart: { items: [{ sku: 'a', qty: 1 }, { sku: 'b', qyt: 2 }] },
+        limits: { orders: { max: 5 }, refunds: { max: 1, min: 0 } },
+      };
+
+      const result = validateSchema(event, schema, true);
+
+      expect(result.errors).toEqual([
+        'Unknown field: cart.items[1].qyt',
+        'Unknown field: limits.refunds.min',
+      ]);
+    });
+
+    it('accepts extra keys below fields marked additionalProperties', () => {
+      const schema = defineCanonSchema({
+        unknownMode: 'deny',
+        fields: {
+          'user': { type: 'object', additionalProperties: true },
+          'user.id': { type: 'string' },
+        },
+      });
+
+      const event = {
+        ...completeEvent,
+        user: { id: 'u_1', nickname: 'al' },
+      };
+
+      expect(validateSchema(event, schema, true).errors).toEqual([]);
+    });
+
+    it('treats required paths as known fields', () => {
+      const schema = defineCanonSchema({
+        unknownMode: 'warn',
+        required: ['user.id'],
+      });
+
+      const event = {
+        ...completeEvent,
+        user: { id: 'u_1', role: 'admin' },
+      };
+
+      const result = validateSchema(event, schema, false);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual(['Unknown field: user.role']);
+    });
+
+    it('enforces enum, range and integer constraints', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'payment.amount': { type: 'number', min: 0, max: 10_000 },
+          'cart.item_count': { type: 'number', integer: true },
+          'user.plan': { type: 'string', enum: ['free', 'pro'] },
+        },
+      });
+
+      const event = {
+        ...completeEvent,
+        payment: { amount: -5 },
+        cart: { item_count: 1.5 },
+        user: { plan: 'gold' },
+      };
+
+      const result = validateSchema(event, schema, true);
+
+      expect(result.errors).toEqual([
+        'Field "payment.amount" must be >= 0, got -5',
+        'Field "cart.item_count" must be an integer, got 1.5',
+        'Field "user.plan" must be one of "free", "pro", got "gold"',
+      ]);
+    });
+
+    it('enforces string length, pattern and format constraints', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'user.id': { type: 'string', minLength: 3, maxLength: 8 },
+          'order.ref': { type: 'string', pattern: '^ord_[0-9]+$' },
+          'order.sku': { type: 'string', pattern: /^[A-Z]{3}$/ },
+          'user.email': { type: 'string', format: 'email' },
+          'order.id': { type: 'string', format: 'uuid' },
+          'order.placed_at': { type: 'string', format: 'iso-datetime' },
+          'order.callback': { type: 'string', format: 'url' },
+        },
+      });
+
+      const valid = {
+        ...completeEvent,
+        user: { id: 'u_123', email: 'a@example.com' },
+        order: {
+          ref: 'ord_42',
+          sku: 'ABC',
+          id: '3f2504e0-4f89-11d3-9a0c-0305e82c3301',
+          placed_at: '2024-01-15T10:30:00+02:00',
+          callback: 'https://example.com/hook',
+        },
+      };
+      expect(validateSchema(valid, schema, true).errors).toEqual([]);
+
+      const invalid = {
+        ...completeEvent,
+        user: { id: 'u_123456789', email: 'not-an-email' },
+        order: { ref: 'order-42', sku: 'abc', id: '1234', placed_at: '2024-01-15', callback: 'example.com' },
+      };
+      expect(validateSchema(invalid, schema, true).errors).toEqual([
+        'Field "user.id" must be at most 8 characters, got 11',
+        'Field "order.ref" does not match pattern /^ord_[0-9]+$/',
+        'Field "order.sku" does not match pattern /^[A-Z]{3}$/',
+        'Field "user.email" is not a valid email',
+        'Field "order.id" is not a valid uuid',
+        'Field "order.placed_at" is not a valid iso-datetime',
+        'Field "order.callback" is not a valid url',
+      ]);
+    });
+
+    it('reports constraint violations as warnings outside strict mode', () => {
+      const schema = defineCanonSchema({});
+
+      const result = validateSchema({ ...completeEvent, status_code: 700, outcome: 'done' as any }, schema, false);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        'Field "status_code" must be <= 599, got 700',
+        'Field "outcome" must be one of "success", "error", "aborted", got "done"',
+      ]);
+    });
+
+    it('accepts null unless nullable is false', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'user.id': { type: 'string', nullable: false },
+          'user.name': { type: 'string', minLength: 1 },
+        },
+      });
+
+      const result = validateSchema({ ...completeEvent, user: { id: null, name: null } }, schema, true);
+
+      expect(result.errors).toEqual(['Field "user.id" must not be null']);
+    });
+
+    it('rejects invalid field definitions', () => {
+      expect(() => defineCanonSchema({ fields: { 'a': { type: 'string', pattern: '(' } } }))
+        .toThrow('[canon] Invalid field definition "a": invalid pattern "("');
+      expect(() => defineCanonSchema({ fields: { 'a': { type: 'number', min: 5, max: 1 } } }))
+        .toThrow('[canon] Invalid field definition "a": min is greater than max');
+      expect(() => defineCanonSchema({ fields: { 'a': { type: 'string', format: 'ipv4' as any } } }))
+        .toThrow('[canon] Invalid field definition "a": unknown format "ipv4"');
+      expect(() => defineCanonSchema({ fields: { 'a': { type: 'string', pattern: /^a/g } } }))
+        .toThrow('[canon] Invalid field definition "a": pattern /^a/g must not use the g or y flag');
+      expect(() => defineCanonSchema({ fields: { 'a': { type: 'string', pattern: /^a/y } } }))
+        .toThrow('must not use the g or y flag');
+    });
+
+    it('validates stateful and invalid patterns in schemas not built with defineCanonSchema', () => {
+      const schema: CanonSchema = {
+        required: [],
+        fields: {
+          'order.ref': { type: 'string', pattern: /^ord_/g },
+          'order.sku': { type: 'string', pattern: '(' },
+        },
+      };
+      const event = { ...completeEvent, order: { ref: 'ord_1', sku: 'ABC' } };
+
+      for (let i = 0; i < 3; i++) {
+        expect(validateSchema(event, schema, true).errors).toEqual([
+          'Field "order.sku" has invalid pattern "("',
+        ]);
+      }
+    });
+
+    it('validates array items with per-element paths', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'cart.items': {
+            type: 'array',
+            maxItems: 5,
+            items: {
+              type: 'object',
+              properties: {
+                sku: { type: 'string' },
+                price: { type: 'number', min: 0 },
+              },
+            },
+          },
+        },
+      });
+
+      const event = {
+        ...completeEvent,
+        cart: {
+          items: [
+            { sku: 'a', price: 10 },
+            { sku: 'b', price: 5 },
+            { sku: 3, price: 5 },
+            { sku: 'd', price: -1 },
+          ],
+        },
+      };
+
+      const result = validateSchema(event, schema, true);
+
+      expect(result.errors).toEqual([
+        'Field "cart.items[2].sku" has invalid type: expected string, got number',
+        'Field "cart.items[3].price" must be >= 0, got -1',
+      ]);
+    });
+
+    it('rejects arrays longer than maxItems without checking the excess', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'tags': { type: 'array', maxItems: 2, items: { type: 'string' } },
+        },
+      });
+
+      const result = validateSchema({ ...completeEvent, tags: ['a', 'b', 3, 4] }, schema, true);
+
+      expect(result.errors).toEqual(['Field "tags" must have at most 2 items, got 4']);
+    });
+
+    it('truncates arrays past maxItems, including nested ones', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'tags': { type: 'array', maxItems: 2 },
+          'orders': {
+            type: 'array',
+            items: { type: 'object', properties: { lines: { type: 'array', maxItems: 1 } } },
+          },
+        },
+      });
+      const event = { ...completeEvent, tags: ['a', 'b', 'c'], orders: [{ lines: [1] }, { lines: [1, 2] }] };
+
+      expect(applyMaxItems(event, schema)).toEqual(['tags', 'orders[1].lines']);
+      expect(event.tags).toEqual(['a', 'b']);
+      expect(event.orders).toEqual([{ lines: [1] }, { lines: [1] }]);
+      expect(validateSchema(event, schema, true).errors).toEqual([]);
+    });
+
+    it('validates nested object properties', () => {
+      const schema = defineCanonSchema({
+        fields: {
+          'payment': {
+            type: 'object',
+            properties: {
+              provider: { type: 'string', enum: ['stripe', 'adyen'] },
+              card: { type: 'object', properties: { last4: { type: 'string', pattern: '^[0-9]{4}$' } } },
+            },
+          },
+        },
+      });
+
+      const result = validateSchema(
+        { ...completeEvent, payment: { provider: 'paypal', card: { last4: '12345' } } },
+        schema,
+        false
+      );
+
+      expect(result.warnings).toEqual([
+        'Field "payment.provider" must be one of "stripe", "adyen", got "paypal"',
+        'Field "payment.card.last4" does not match pattern /^[0-9]{4}$/',
+      ]);
+    });
+
+    it('uses items and properties for unknown-field detection', () => {
+      const schema = defineCanonSchema({
+        unknownMode: 'deny',
+        fields: {
+          'cart.items': {
+            type: 'array',
+            items: { type: 'object', properties: { sku: { type: 'string' } } },
+          },
+        },
+      });
+
+      const result = validateSchema(
+        { ...completeEvent, cart: { items: [{ sku: 'a' }, { sku: 'b', prcie: 3 }] } },
+        schema,
+        true
+      );
+
+      expect(result.errors).toEqual(['Unknown field: cart.items[1].prcie']);
+    });
+
+    it('rejects items and properties on the wrong type', () => {
+      expect(() => defineCanonSchema({ fields: { 'a': { type: 'string', items: { type: 'string' } } } }))
+        .toThrow('[canon] Invalid field definition "a": items requires type "array"');
+      expect(() => defineCanonSchema({
+        fields: { 'a': { type: 'array', items: { type: 'object', properties: { b: { type: 'number', min: 2, max: 1 } } } } },
+      })).toThrow('[canon] Invalid field definition "a[].b": min is greater than max');
+    });
+
     it('allows unknown keys when mode is allow', () => {
       const schema = defineCanonSchema({
         unknownMode: 'allow',
@@ -200,5 +554,65 @@ describe('Schema', () => {
       expect(piiFields).not.toContain('cart.total');
     });
   });
+  
+  describe('typed schemas', () => {
+    const schema = defineCanonSchema({
+      fields: {
+        'user.id': { type: 'string', pii: true },
+        'user.plan': { type: 'string', enum: ['free', 'pro'] },
+        'cart.total': { type: 'number', nullable: false },
+        'cart.items': {
+          type: 'array',
+          items: { type: 'object', properties: { sku: { type: 'string' }, qty: { type: 'number' } } },
+        },
+        'flags.*': { type: 'boolean' },
+      },
+    });
+    
+    it('infers paths from declared fields', () => {
+      expectTypeOf<SchemaPath<typeof schema>>().toEqualTypeOf<
+        'user.id' | 'user.plan' | 'cart.total' | 'cart.items' | `flags.${string}`
+      >();
+    });
+    
+    it('infers value types from field definitions', () => {
+      expectTypeOf<SchemaValue<typeof schema, 'user.id'>>().toEqualTypeOf<string | null>();
+      expectTypeOf<SchemaValue<typeof schema, 'user.plan'>>().toEqualTypeOf<'free' | 'pro' | null>();
+      expectTypeOf<SchemaValue<typeof schema, 'cart.total'>>().toEqualTypeOf<number>();
+      expectTypeOf<SchemaValue<typeof schema, 'flags.beta'>>().toEqualTypeOf<boolean | null>();
+      expectTypeOf<SchemaValue<typeof schema, 'cart.items'>>().toEqualTypeOf<
+        Array<{ sku?: string | null; qty?: number | null } | null> | null
+      >();
+    });
+    
+    it('keeps untyped contexts open', () => {
+      const untyped = defineCanonSchema({});
+      expectTypeOf<SchemaPath<typeof untyped>>().toEqualTypeOf<string>();
+      expectTypeOf<SchemaValue<typeof untyped, 'any.path'>>().toEqualTypeOf<unknown>();
+      expectTypeOf<CanonContext>().toMatchTypeOf<CanonContext<typeof schema>>();
+    });
+    
+    it('rejects unknown paths and wrong value types', () => {
+      const calls: Array<[string, unknown]> = [];
+      const canon = {
+        set: (path: string, value: unknown) => calls.push([path, value]),
+      } as unknown as CanonContext<typeof schema>;
+      
+      canon.set('user.plan', 'pro');
+      canon.set('flags.beta', true);
+      // @ts-expect-error unknown path
+      canon.set('user.idd', 'u_1');
+      // @ts-expect-error wrong value type
+      canon.set('user.id', 123);
+      // @ts-expect-error value outside enum
+      canon.set('user.plan', 'gold');
+      
+      expect(calls).toHaveLength(5);
+    });
+    
+    it('keeps runtime fields identical', () => {
+      expect(schema.fields['timestamp']).toEqual(CANON_BASE_FIELDS['timestamp']);
+      expect(schema.fields['user.plan']).toEqual({ type: 'string', enum: ['free', 'pro'] });
+    });
+  });
 });
-
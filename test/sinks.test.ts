@@ -0,0 +1,193 @@
+/**
+ * Multi-Sink Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createCanonContext, validateCanonConfig } from '../src/core/canon.js';
+import { createMetricsAggregator } from '../src/core/metrics.js';
+import { canonExpress } from '../src/middleware/express.js';
+import type { CanonConfig, InternalEvent, WideEvent } from '../src/types.js';
+
+describe('Sinks', () => {
+  let stdoutEvents: WideEvent[];
+  let pipelineEvents: WideEvent[];
+  let auditEvents: WideEvent[];
+  let config: CanonConfig;
+
+  const run = (overrides: Partial<CanonConfig> = {}, fields: Record<string, unknown> = {}) => {
+    const { context, emit } = createCanonContext(
+      { ...config, ...overrides },
+      'req_1',
+      'trace_1',
+      { method: 'GET', path: '/' }
+    );
+    context.enrich(fields);
+    emit('success', 200);
+    emit('success', 200);
+  };
+
+  beforeEach(() => {
+    stdoutEvents = [];
+    pipelineEvents = [];
+    auditEvents = [];
+    config = {
+      service: 'api',
+      sample: () => true,
+      sinks: [
+        { name: 'stdout', emit: (event) => stdoutEvents.push(event), redact: { enabled: false, strategy: 'mask', fields: [] } },
+        { name: 'pipeline', emit: (event) => pipelineEvents.push(event) },
+        {
+          name: 'audit',
+          emit: (event) => auditEvents.push(event),
+          redact: { enabled: true, strategy: 'hash', fields: ['user.email'] },
+        },
+      ],
+      redact: { enabled: true, strategy: 'mask', fields: ['user.email'] },
+    };
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('redacts separately for each sink and emits once per sink', () => {
+    run({}, { user: { email: 'alice@example.com' } });
+
+    expect(stdoutEvents).toHaveLength(1);
+    expect(pipelineEvents).toHaveLength(1);
+    expect(auditEvents).toHaveLength(1);
+
+    const stdoutEmail = (stdoutEvents[0] as any).user.email;
+    const pipelineEmail = (pipelineEvents[0] as any).user.email;
+    const auditEmail = (auditEvents[0] as any).user.email;
+
+    expect(stdoutEmail).toBe('alice@example.com');
+    expect(pipelineEmail).not.toBe('alice@example.com');
+    expect(auditEmail).not.toBe('alice@example.com');
+    expect(auditEmail).not.toBe(pipelineEmail);
+  });
+
+  it('gives each sink its own copy of the event', () => {
+    config.sinks = [
+      { emit: (event) => { (event as any).user.id = 'mutated'; stdoutEvents.push(event); } },
+      { emit: (event) => pipelineEvents.push(event) },
+    ];
+
+    run({}, { user: { id: 'u_1' } });
+
+    expect((pipelineEvents[0] as any).user.id).toBe('u_1');
+  });
+
+  it('applies per-sink filters', () => {
+    config.sinks = [
+      { emit: (event) => stdoutEvents.push(event) },
+      { emit: (event) => auditEvents.push(event), filter: (event) => event.outcome === 'error' },
+    ];
+
+    run();
+
+    expect(stdoutEvents).toHaveLength(1);
+    expect(auditEvents).toHaveLength(0);
+  });
+
+  it('samples each sink independently', () => {
+    const internalEvents: InternalEvent[] = [];
+    config.sinks = [
+      { name: 'all', emit: (event) => stdoutEvents.push(event), sample: () => true },
+      { name: 'none', emit: (event) => pipelineEvents.push(event), sample: () => false },
+      { name: 'inherited', emit: (event) => auditEvents.push(event) },
+    ];
+
+    run({ sample: { sampleRateSuccess: 0 }, onInternalEvent: (event) => internalEvents.push(event) });
+
+    expect(stdoutEvents).toHaveLength(1);
+    expect(stdoutEvents[0].sample_reason).toBe('custom');
+    expect(pipelineEvents).toHaveLength(0);
+    expect(auditEvents).toHaveLength(0);
+    expect(internalEvents.map(e => [e.type, e.sink])).toEqual([
+      ['emitted', 'all'],
+      ['sampled_out', 'none'],
+      ['sampled_out', 'inherited'],
+    ]);
+  });
+
+  it('draws the shared sampling decision once per event', () => {
+    vi.useFakeTimers();
+    const sample = { adaptive: { targetPerSecond: 10, windowMs: 1000 } };
+    config.sinks = [
+      { emit: (event) => stdoutEvents.push(event) },
+      { emit: (event) => pipelineEvents.push(event) },
+      { emit: (event) => auditEvents.push(event) },
+    ];
+
+    for (let second = 0; second < 5; second++) {
+      for (let i = 0; i < 4; i++) {
+        run({ sample, debug: false });
+      }
+      vi.advanceTimersByTime(1000);
+    }
+    vi.useRealTimers();
+
+    expect(stdoutEvents).toHaveLength(20);
+    expect(pipelineEvents).toHaveLength(20);
+    expect(auditEvents).toHaveLength(20);
+    expect(stdoutEvents.every(event => event.sample_rate === 1)).toBe(true);
+  });
+
+  it('isolates a failing sink from the others', () => {
+    const fallbackEvents: WideEvent[] = [];
+    config.sinks = [
+      { emit: () => { throw new Error('sink down'); } },
+      { emit: (event) => pipelineEvents.push(event) },
+    ];
+
+    run({ fallbackEmit: (event) => fallbackEvents.push(event) });
+
+    expect(pipelineEvents).toHaveLength(1);
+    expect(fallbackEvents).toHaveLength(1);
+  });
+
+  it('counts pipeline metrics per sink', () => {
+    const metrics = createMetricsAggregator();
+    config.sinks = [
+      { emit: (event) => stdoutEvents.push(event) },
+      { emit: (event) => pipelineEvents.push(event), sample: () => false },
+    ];
+
+    run({ metrics });
+
+    const { series, pipeline } = metrics.snapshot();
+    expect(series[0].count).toBe(1);
+    expect(pipeline[0]).toMatchObject({ emitted: 1, sampledOut: 1 });
+  });
+
+  it('works through an adapter', async () => {
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/test', (_req, res) => {
+      res.json({ ok: true });
+    });
+
+    await request(app).get('/test').expect(200);
+
+    expect(stdoutEvents).toHaveLength(1);
+    expect(pipelineEvents).toHaveLength(1);
+    expect(auditEvents).toHaveLength(1);
+  });
+
+  it('rejects invalid sink configuration', () => {
+    expect(() => validateCanonConfig({ service: 'api', sinks: {} as any }))
+      .toThrow('[canon] sinks must be an array');
+    expect(() => validateCanonConfig({ service: 'api', emit: () => {}, sinks: [] }))
+      .toThrow('[canon] emit and sinks cannot be combined');
+    expect(() => validateCanonConfig({ service: 'api', sinks: [{ name: 'audit' } as any] }))
+      .toThrow('[canon] Invalid sink #1 (audit): emit must be a function');
+    expect(() => validateCanonConfig({
+      service: 'api',
+      sinks: [{ emit: () => {}, sample: { adaptive: { targetPerSecond: 0 } } }],
+    })).toThrow('[canon] sample.adaptive.targetPerSecond must be a positive number');
+  });
+});
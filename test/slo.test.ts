@@ -0,0 +1,142 @@
+/**
+ * Per-Route Latency Thresholds and SLO Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { applySlo, validateSlo } from '../src/core/slo.js';
+import { shouldSample, createSamplingConfig } from '../src/core/sampling.js';
+import { canonExpress } from '../src/middleware/express.js';
+import type { CanonConfig, SloConfig, WideEvent } from '../src/types.js';
+
+describe('SLO', () => {
+  const baseEvent: Partial<WideEvent> = {
+    timestamp: '2024-01-15T10:30:00.000Z',
+    request_id: 'req_test123',
+    service: 'test-service',
+    method: 'GET',
+    path: '/auth/token',
+    route: '/auth/token',
+    status_code: 200,
+    duration_ms: 250,
+    outcome: 'success',
+  };
+
+  const slo: SloConfig = {
+    latencyTargetMs: 1000,
+    routes: [
+      { route: '/auth/token', thresholdMs: 200 },
+      { route: /^\/search/, thresholdMs: 5000 },
+    ],
+  };
+
+  describe('applySlo', () => {
+    it('stamps the route target and breach', () => {
+      const event = { ...baseEvent };
+      applySlo(event, slo);
+
+      expect(event.slo).toEqual({ latency_target_ms: 200, breached: true });
+    });
+
+    it('matches regex routes and falls back to the default target', () => {
+      const search: Partial<WideEvent> = { ...baseEvent, route: '/search/:q', duration_ms: 3000 };
+      applySlo(search, slo);
+      expect(search.slo).toEqual({ latency_target_ms: 5000, breached: false });
+
+      const other: Partial<WideEvent> = { ...baseEvent, route: '/orders', duration_ms: 1000 };
+      applySlo(other, slo);
+      expect(other.slo).toEqual({ latency_target_ms: 1000, breached: false });
+    });
+
+    it('matches the path when no route is set', () => {
+      const event: Partial<WideEvent> = { ...baseEvent, route: undefined };
+      applySlo(event, slo);
+
+      expect((event.slo as any).latency_target_ms).toBe(200);
+    });
+
+    it('tests RegExps against the path when the route does not match', () => {
+      const event: Partial<WideEvent> = { ...baseEvent, route: '/:section/:q', path: '/search/shoes', duration_ms: 3000 };
+      applySlo(event, slo);
+
+      expect(event.slo).toEqual({ latency_target_ms: 5000, breached: false });
+    });
+
+    it('keeps existing slo fields', () => {
+      const event = { ...baseEvent, slo: { tier: 'gold' } };
+      applySlo(event, slo);
+
+      expect(event.slo).toEqual({ tier: 'gold', latency_target_ms: 200, breached: true });
+    });
+
+    it('validates configuration', () => {
+      expect(() => validateSlo(slo)).not.toThrow();
+      expect(() => validateSlo({})).toThrow('[canon] slo.latencyTargetMs must be a non-negative number');
+      expect(() => validateSlo({ latencyTargetMs: 100, routes: [{ route: 5, thresholdMs: 1 }] })).toThrow('slo.routes[0].route');
+      expect(() => validateSlo({ latencyTargetMs: 100, routes: [{ route: '/x' }] })).toThrow('slo.routes[0].thresholdMs');
+      expect(() => validateSlo({ latencyTargetMs: 100, routes: [{ route: /^\/x/g, thresholdMs: 1 }] }))
+        .toThrow('[canon] slo.routes[0].route must not use the g or y flag');
+      expect(() => validateSlo({ latencyTargetMs: 100, routes: [{ route: /^\/x/y, thresholdMs: 1 }] })).toThrow('g or y flag');
+    });
+  });
+
+  describe('sampling', () => {
+    it('always keeps SLO breaches', () => {
+      const config = createSamplingConfig({ sampleRateSuccess: 0 });
+      const event = { ...baseEvent, slo: { latency_target_ms: 200, breached: true } };
+
+      expect(shouldSample(event, config)).toEqual({ sampled: true, rate: 1, reason: 'slo_breach' });
+    });
+
+    it('uses per-route slow thresholds', () => {
+      const config = createSamplingConfig({
+        sampleRateSuccess: 0,
+        slowThresholdMs: 2000,
+        routeSlowThresholds: [
+          { route: '/auth/token', thresholdMs: 200 },
+          { route: /^\/search/, thresholdMs: 10_000 },
+        ],
+      });
+
+      expect(shouldSample({ ...baseEvent }, config).reason).toBe('slow');
+      expect(shouldSample({ ...baseEvent, route: '/search/:q', duration_ms: 5000 }, config).sampled).toBe(false);
+      expect(shouldSample({ ...baseEvent, route: '/orders', duration_ms: 2500 }, config).reason).toBe('slow');
+    });
+  });
+
+  describe('express integration', () => {
+    let emittedEvents: WideEvent[];
+    let config: CanonConfig;
+
+    beforeEach(() => {
+      emittedEvents = [];
+      config = {
+        service: 'test-service',
+        emit: (event) => emittedEvents.push(event),
+        debug: false,
+        sample: { sampleRateSuccess: 0 },
+        slo: { latencyTargetMs: 1000, routes: [{ route: '/users/:id', thresholdMs: 0 }] },
+      };
+    });
+
+    it('uses the route template resolved at finalize', async () => {
+      const app = express();
+      app.use(canonExpress(config));
+      app.get('/users/:id', async (_req, res) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        res.send('ok');
+      });
+
+      await request(app).get('/users/42').expect(200);
+
+      expect(emittedEvents).toHaveLength(1);
+      expect(emittedEvents[0].slo).toEqual({ latency_target_ms: 0, breached: true });
+      expect(emittedEvents[0].sample_reason).toBe('slo_breach');
+    });
+
+    it('rejects invalid SLO config at construction', () => {
+      expect(() => canonExpress({ ...config, slo: { latencyTargetMs: -1 } })).toThrow(/slo.latencyTargetMs/);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Pipeline Stats Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCanonContext } from '../src/core/canon.js';
+import { defineCanonSchema } from '../src/core/schema.js';
+import { getCanonStats, resetCanonStats } from '../src/core/stats.js';
+import type { CanonConfig, InternalEvent, WideEvent } from '../src/types.js';
+
+describe('Pipeline Stats', () => {
+  let emittedEvents: WideEvent[];
+  let internalEvents: InternalEvent[];
+  let config: CanonConfig;
+
+  const run = (overrides: Partial<CanonConfig> = {}, fields: Record<string, unknown> = {}) => {
+    const { context, emit } = createCanonContext(
+      { ...config, ...overrides },
+      'req_1',
+      'trace_1',
+      { method: 'GET', path: '/' }
+    );
+    context.enrich(fields);
+    emit('success', 200);
+    return context;
+  };
+
+  beforeEach(() => {
+    resetCanonStats();
+    emittedEvents = [];
+    internalEvents = [];
+    config = {
+      service: 'api',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+      onInternalEvent: (event) => internalEvents.push(event),
+    };
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('counts emitted and sampled-out events', () => {
+    run();
+    run({ sample: () => false });
+
+    expect(getCanonStats()).toMatchObject({ emitted: 1, sampledOut: 1 });
+    expect(internalEvents.map(e => e.type)).toEqual(['emitted', 'sampled_out']);
+    expect(internalEvents[0]).toMatchObject({ service: 'api', requestId: 'req_1' });
+  });
+
+  it('reports events dropped by strict validation with their errors', () => {
+    const schema = defineCanonSchema({
+      required: ['user.id'],
+      fields: { 'user.id': { type: 'string' } },
+    });
+
+    run({ schema, strict: true });
+
+    expect(emittedEvents).toHaveLength(0);
+    expect(getCanonStats().validationDropped).toBe(1);
+    expect(internalEvents[0].type).toBe('validation_dropped');
+    expect(internalEvents[0].errors?.[0]).toContain('user.id');
+  });
+
+  it('does not report a drop when validation fails outside strict mode', () => {
+    const schema = defineCanonSchema({
+      required: ['user.id'],
+      fields: { 'user.id': { type: 'string' } },
+    });
+
+    run({ schema });
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(getCanonStats()).toMatchObject({ emitted: 1, validationDropped: 0 });
+  });
+
+  it('reports redacted field paths', () => {
+    run(
+      { redact: { enabled: true, strategy: 'mask', fields: ['user.email', 'user.phone'] } },
+      { user: { email: 'a@example.com' } }
+    );
+
+    expect(getCanonStats().redactionApplied).toBe(1);
+    expect(internalEvents[0]).toMatchObject({ type: 'redaction_applied', fields: ['user.email'] });
+  });
+
+  it('truncates oversized arrays before emit and reports them', () => {
+    const schema = defineCanonSchema({ fields: { 'cart.items': { type: 'array', maxItems: 2 } } });
+
+    run({ schema, strict: true }, { cart: { items: [1, 2, 3] } });
+
+    expect(emittedEvents).toHaveLength(1);
+    expect((emittedEvents[0] as any).cart.items).toEqual([1, 2]);
+    expect(getCanonStats()).toMatchObject({ emitted: 1, arrayTruncated: 1, validationDropped: 0 });
+    expect(internalEvents[0]).toMatchObject({ type: 'array_truncated', fields: ['cart.items'] });
+  });
+
+  it('contains emitter errors and reports them', () => {
+    const failure = new Error('sink down');
+
+    expect(() => run({ emit: () => { throw failure; } })).not.toThrow();
+
+    expect(getCanonStats()).toMatchObject({ emitted: 0, emitterThrew: 1 });
+    expect(internalEvents).toEqual([
+      { type: 'emitter_threw', service: 'api', requestId: 'req_1', error: failure },
+    ]);
+  });
+
+  it('reports mutations after finalization', () => {
+    const context = run();
+
+    context.enrich({ late: true });
+    context.set('late', true);
+
+    expect(getCanonStats().lateMutation).toBe(2);
+    expect(internalEvents.slice(1).map(e => e.method)).toEqual(['enrich', 'set']);
+  });
+
+  it('keeps counting when the hook throws', () => {
+    run({ onInternalEvent: () => { throw new Error('hook failed'); } });
+
+    expect(emittedEvents).toHaveLength(1);
+    expect(getCanonStats().emitted).toBe(1);
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      expect.stringContaining('[canon] onInternalEvent threw: hook failed')
+    );
+  });
+});
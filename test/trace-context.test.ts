@@ -0,0 +1,158 @@
+/**
+ * W3C Trace Context Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { canonExpress } from '../src/middleware/express.js';
+import { extractIds } from '../src/core/canon.js';
+import { canonJob } from '../src/core/job.js';
+import { formatTraceparent, parseTraceparent } from '../src/utils/traceparent.js';
+import { generateSpanId, generateW3CTraceId } from '../src/utils/ids.js';
+import type { CanonConfig, WideEvent } from '../src/types.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`;
+
+describe('traceparent parsing', () => {
+  it('parses a valid header', () => {
+    expect(parseTraceparent(TRACEPARENT)).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_SPAN_ID,
+      traceFlags: '01',
+    });
+  });
+
+  it('rejects malformed headers', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+    expect(parseTraceparent(TRACEPARENT.toUpperCase())).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_SPAN_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_SPAN_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeUndefined();
+    expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeUndefined();
+  });
+
+  it('accepts future versions with extra fields', () => {
+    expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_SPAN_ID}-01-extra`)?.traceId).toBe(TRACE_ID);
+  });
+
+  it('round-trips through formatTraceparent', () => {
+    const traceId = generateW3CTraceId();
+    const spanId = generateSpanId();
+
+    expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(parseTraceparent(formatTraceparent(traceId, spanId))).toEqual({
+      traceId,
+      spanId,
+      traceFlags: '01',
+    });
+  });
+});
+
+describe('extractIds', () => {
+  const config: CanonConfig = { service: 'test-service' };
+
+  it('continues the caller trace from traceparent', () => {
+    const ids = extractIds({ traceparent: TRACEPARENT, tracestate: 'vendor=abc' }, config);
+
+    expect(ids.traceId).toBe(TRACE_ID);
+    expect(ids.w3c).toEqual({ parentSpanId: PARENT_SPAN_ID, traceFlags: '01', traceState: 'vendor=abc' });
+  });
+
+  it('prefers traceparent over the trace ID header', () => {
+    const ids = extractIds({ traceparent: TRACEPARENT, 'x-trace-id': 'trace_legacy' }, config);
+    expect(ids.traceId).toBe(TRACE_ID);
+  });
+
+  it('keeps canon trace IDs by default', () => {
+    const ids = extractIds({}, config);
+
+    expect(ids.traceId).toMatch(/^trace_/);
+    expect(ids.w3c).toBeUndefined();
+  });
+
+  it('generates W3C trace IDs in w3c mode', () => {
+    const ids = extractIds({ 'x-trace-id': 'trace_legacy' }, { ...config, traceContext: 'w3c' });
+
+    expect(ids.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(ids.w3c).toEqual({ traceFlags: '01' });
+  });
+
+  it('ignores traceparent when incoming IDs are not trusted', () => {
+    const ids = extractIds({ traceparent: TRACEPARENT }, { ...config, trustIncomingIds: false });
+
+    expect(ids.traceId).not.toBe(TRACE_ID);
+    expect(ids.w3c).toBeUndefined();
+  });
+});
+
+describe('propagation', () => {
+  let emittedEvents: WideEvent[];
+  let config: CanonConfig;
+
+  beforeEach(() => {
+    emittedEvents = [];
+    config = {
+      service: 'test-service',
+      emit: (event) => emittedEvents.push(event),
+      sample: () => true,
+    };
+  });
+
+  it('records span IDs and returns traceparent for an incoming trace', async () => {
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/test', (_req, res) => res.send('ok'));
+
+    const response = await request(app)
+      .get('/test')
+      .set('traceparent', TRACEPARENT)
+      .set('tracestate', 'vendor=abc')
+      .expect(200);
+
+    const event = emittedEvents[0];
+    expect(event.trace_id).toBe(TRACE_ID);
+    expect(event.parent_span_id).toBe(PARENT_SPAN_ID);
+    expect(event.span_id).toMatch(/^[0-9a-f]{16}$/);
+    expect(event.span_id).not.toBe(PARENT_SPAN_ID);
+
+    expect(response.headers['traceparent']).toBe(`00-${TRACE_ID}-${event.span_id}-01`);
+    expect(response.headers['tracestate']).toBe('vendor=abc');
+    expect(response.headers['x-trace-id']).toBe(TRACE_ID);
+  });
+
+  it('starts a new W3C trace without a parent in w3c mode', async () => {
+    const app = express();
+    app.use(canonExpress({ ...config, traceContext: 'w3c' }));
+    app.get('/test', (_req, res) => res.send('ok'));
+
+    const response = await request(app).get('/test').expect(200);
+
+    const event = emittedEvents[0];
+    expect(event.trace_id).toMatch(/^[0-9a-f]{32}$/);
+    expect(event.parent_span_id).toBeUndefined();
+    expect(parseTraceparent(response.headers['traceparent'])?.spanId).toBe(event.span_id);
+  });
+
+  it('does not send traceparent in canon mode without an incoming trace', async () => {
+    const app = express();
+    app.use(canonExpress(config));
+    app.get('/test', (_req, res) => res.send('ok'));
+
+    const response = await request(app).get('/test').expect(200);
+
+    expect(response.headers['traceparent']).toBeUndefined();
+    expect(emittedEvents[0].span_id).toBeUndefined();
+  });
+
+  it('continues a trace in jobs via the traceparent option', async () => {
+    await canonJob({ name: 'send-invoice', traceparent: TRACEPARENT }, config, () => undefined);
+
+    expect(emittedEvents[0].trace_id).toBe(TRACE_ID);
+    expect(emittedEvents[0].parent_span_id).toBe(PARENT_SPAN_ID);
+  });
+});